@@ -1,14 +1,47 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import ReactDOM from 'react-dom/client';
-import { Upload, Music, Image as ImageIcon, FileText, Play, Pause, Download, MonitorPlay, Settings, AlignLeft, Sun, Sparkles } from 'lucide-react';
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+import { Upload, Music, Image as ImageIcon, FileText, Play, Pause, Download, MonitorPlay, Settings, AlignLeft, Sun, Sparkles, Timer, Undo2, Rewind, X, Languages, Users, AudioLines, Palette, FolderOpen, Save, FilePlus, Trash2, Bookmark, Type, Wand2, Hourglass, Film, Scissors, MicVocal, Headphones, Clock, Plus, Minus, AudioWaveform, ZoomIn, ZoomOut, Magnet, Check } from 'lucide-react';
 
 // --- TYPES ---
 
+export interface LyricWord {
+  time: number;    // Time in seconds when the word starts
+  endTime: number; // Time in seconds when the word is fully sung
+  text: string;    // Word text including its trailing space, if any
+}
+
+// Duet part: first singer, second singer, or both together
+export type Singer = 'v1' | 'v2' | 'both';
+
 export interface LyricLine {
   time: number; // Time in seconds
+  endTime?: number; // Time in seconds when the line ends, if the source has one
   text: string;
+  words?: LyricWord[]; // Enhanced LRC word timings (concatenated texts equal `text`)
+  translations?: string[]; // Translation / romanization lines shown under the main text
+  singer?: Singer; // Duet part; unset for unmarked lyrics
 }
 
+export type LayoutTemplate = 'split' | 'focus' | 'karaoke' | 'subtitle';
+
+// How lines of the lyric list change
+export type LyricTransition = 'scroll' | 'fade' | 'slide' | 'zoom' | 'typewriter' | 'bounce';
+
+export type TransitionEasing = 'linear' | 'easeOut' | 'easeInOut' | 'expo' | 'back';
+
+// Spectrum visualizer drawn from the audio analysis
+export type VisualizerStyle = 'none' | 'bars' | 'circle';
+
+// Shown in instrumental breaks between lines and before the first one
+export type BreakIndicatorStyle = 'none' | 'note' | 'bar' | 'dots';
+
+// Which audio goes into playback and the export
+export type AudioMode = 'original' | 'vocalReduction' | 'stems';
+
+// What fills the frame behind the album art and lyrics
+export type BackgroundSource = 'cover' | 'kenBurns' | 'slideshow' | 'video';
+
 export interface AppSettings {
   primaryColor: string; // Hex code for active lyric
   secondaryColor: string; // Hex code for inactive lyric
@@ -18,6 +51,67 @@ export interface AppSettings {
   lyricsXOffset: number; // Percentage 0-100 (default 45)
   introDuration: number; // Seconds (default 3)
   songTitle: string;     // Title text
+  showMetadata: boolean; // Show artist/album from LRC tags under the title
+  template: LayoutTemplate; // Composition of art and lyrics
+
+  // Transition Settings
+  transition: LyricTransition;
+  transitionEasing: TransitionEasing;
+  transitionDuration: number; // Seconds
+  visibleLines: number; // Neighbor lines shown on each side of the active line
+  neighborFade: number; // 0 to 100, alpha lost per line beyond the second neighbor
+  neighborBlur: number; // 0 to 100
+
+  // Typography Settings
+  lyricsFont: string; // Font family name
+  titleFont: string;
+  fontWeight: number; // Active lyric weight; other lines are one step lighter
+  titleFontWeight: number;
+  letterSpacing: number; // Pixels at 1080p
+  uppercase: boolean;
+  textOutline: number; // Stroke width in pixels at 1080p, 0 for none
+  outlineColor: string;
+
+  // Translation Settings
+  showTranslations: boolean;
+  translationScale: number; // Percent of the lyric font size
+  translationColor: string;
+
+  // Audio Reactive Settings
+  visualizer: VisualizerStyle;
+  audioReactive: boolean; // Bokeh pulses on beats, glow follows loudness
+  reactiveStrength: number; // 0 to 100
+
+  // Break Indicator Settings
+  breakIndicator: BreakIndicatorStyle;
+  breakThreshold: number; // Seconds without singing before a gap counts as a break
+
+  // Duet Settings
+  singer1Color: string;
+  singer2Color: string;
+  bothSingersColor: string;
+  duetAlignment: boolean; // Second singer right-aligned, both centered
+
+  // Outro Settings
+  outroDuration: number; // Seconds after the audio ends (0 for a hard cut)
+  lyricsCredit: string;  // "Lyrics by" name, hidden when empty
+  artCredit: string;     // "Cover art by" name, hidden when empty
+  endCardText: string;   // Free text under the credits, one row per line
+
+  // Audio Settings
+  audioMode: AudioMode;
+  vocalReduction: number;    // 0 to 100, share of the center channel removed
+  vocalBassCutoff: number;   // Hz; the center below it is kept so bass and kick survive
+  instrumentalLevel: number; // 0 to 100
+  guideVocalLevel: number;   // 0 to 100
+
+  // Clip Settings
+  clipEnabled: boolean; // Export only the range between the in and out points
+  clipStart: number;    // Song time in seconds
+  clipEnd: number;
+  clipIntro: boolean;   // Show the intro card before the clip
+
+  // Output Settings
   videoWidth: number;
   videoHeight: number;
   
@@ -27,420 +121,3814 @@ export interface AppSettings {
   bokehColor: string;
   bokehAutoSize: boolean;
   bokehScale: number; // 0 to 100
+
+  // Background Settings
+  backgroundSource: BackgroundSource;
+  backgroundBlur: number; // Pixels at 1080p
+  backgroundDim: number; // 0 to 100, how much of the gradient shows through
+  backgroundSaturation: number; // Percent, 100 leaves colors unchanged
+}
+
+export interface LrcMetadata {
+  title?: string;  // [ti:]
+  artist?: string; // [ar:]
+  album?: string;  // [al:]
+  author?: string; // [by:] Creator of the LRC file
+}
+
+export interface ParsedLyrics {
+  lyrics: LyricLine[];
+  metadata: LrcMetadata;
+}
+
+// A font file uploaded by the user, registered with the FontFace API
+export interface CustomFont {
+  family: string;
+  file: Blob;
 }
 
 export interface MediaState {
   audioUrl: string | null;
   imageUrl: string | null;
+  audioFile: Blob | null; // Uploaded originals, kept so projects can be saved
+  imageFile: Blob | null;
+  instrumentalUrl: string | null; // Stems played instead of the song in the stems audio mode
+  guideVocalUrl: string | null;
+  instrumentalFile: Blob | null;
+  guideVocalFile: Blob | null;
+  backgroundVideoFile: Blob | null; // Looped behind everything with the video background
+  slideFiles: Blob[]; // Images of the slideshow background, in order
+  fonts: CustomFont[];
   lyrics: LyricLine[];
+  metadata: LrcMetadata; // ID tags from the loaded lyrics file
   fileName: string; // Base name for export
 }
 
 // --- UTILS: LRC PARSER ---
 
-const parseLrc = (lrcContent: string): LyricLine[] => {
-  const lines = lrcContent.split('\n');
-  const result: LyricLine[] = [];
-  
-  // Regex to match [mm:ss.xx] or [mm:ss:xx]
-  const timeReg = /\[(\d{2}):(\d{2})[.:](\d{2,3})\]/;
+// Regex to match a leading time stamp: [m:ss], [mm:ss.x], [mm:ss.xx], [mmm:ss.xxx] or [mm:ss:xx]
+const lineTimeReg = /^\s*\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
 
-  for (const line of lines) {
-    const match = timeReg.exec(line);
-    if (match) {
-      const minutes = parseInt(match[1], 10);
-      const seconds = parseInt(match[2], 10);
-      const milliseconds = parseInt(match[3], 10);
-      
-      // Calculate total time in seconds
-      const msDivisor = match[3].length === 3 ? 1000 : 100;
-      const totalSeconds = minutes * 60 + seconds + milliseconds / msDivisor;
+// Enhanced LRC (A2 extension) inline word stamps: <mm:ss.xx>
+const wordTimeReg = /<(\d+):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
 
-      const text = line.replace(timeReg, '').trim();
+// ID tags such as [ti:Title] or [offset:+250]
+const idTagReg = /^\s*\[([a-z]+):(.*)\]\s*$/i;
 
-      if (text) {
-        result.push({
-          time: totalSeconds,
-          text: text
-        });
-      }
+// Duet markers at the start of a line: M: / F: / D: or [v1] / [v2] / [both]
+const singerReg = /^\s*(?:([MFD])\s*:|\[(v1|v2|both)\])\s*/;
+
+const SINGER_MARKERS: Record<string, Singer> = { M: 'v1', F: 'v2', D: 'both', v1: 'v1', v2: 'v2', both: 'both' };
+
+// Lines from a separate translation file attach to the nearest line within this
+const TRANSLATION_MATCH_TOLERANCE = 0.3; // Seconds
+
+// How long the last word of a line is filled when no closing stamp is given
+const DEFAULT_LAST_WORD_DURATION = 1.0; // Seconds
+
+const toSeconds = (minutes: string, seconds: string, fraction?: string): number => {
+  // One digit is tenths, two are hundredths, three are milliseconds
+  const fractionSeconds = fraction ? parseInt(fraction, 10) / Math.pow(10, fraction.length) : 0;
+  return parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + fractionSeconds;
+};
+
+/**
+ * Builds word timings from consecutive timed text segments. Whitespace-only
+ * segments are folded into the previous word, and `closingTime` ends the last
+ * word (NaN when unknown). Returns plain text only when there is nothing timed.
+ */
+const buildTimedWords = (
+  segments: { time: number; text: string }[],
+  closingTime: number
+): { text: string; words?: LyricWord[] } => {
+  const words: LyricWord[] = [];
+  for (const segment of segments) {
+    if (!segment.text.trim()) {
+      // Whitespace between two tags belongs to the previous word
+      if (words.length > 0) words[words.length - 1].text += segment.text;
+      continue;
     }
+    words.push({ time: segment.time, endTime: NaN, text: segment.text });
   }
 
-  // Sort by time just in case
-  return result.sort((a, b) => a.time - b.time);
+  if (words.length === 0) {
+    return { text: '' };
+  }
+
+  words[0].text = words[0].text.trimStart();
+  words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+
+  for (let i = 0; i < words.length; i++) {
+    // NaN marks an open end that is resolved once all lines are known
+    words[i].endTime = i < words.length - 1 ? words[i + 1].time : closingTime;
+  }
+
+  return { text: words.map(w => w.text).join(''), words };
 };
 
-// --- UTILS: RENDERER ---
+/**
+ * Splits the text part of a line into timed words using inline <mm:ss.xx> tags.
+ * Text before the first tag starts at the line time, and a tag after the last
+ * word marks when that word ends. Lines without tags return plain text only.
+ */
+const parseWordTimings = (
+  body: string,
+  lineTime: number,
+  tagReg: RegExp = wordTimeReg,
+  readTag: (tag: RegExpMatchArray) => number = tag => toSeconds(tag[1], tag[2], tag[3])
+): { text: string; words?: LyricWord[] } => {
+  const tags = [...body.matchAll(tagReg)];
+  if (tags.length === 0) {
+    return { text: body.trim() };
+  }
 
-interface RenderContext {
-  ctx: CanvasRenderingContext2D;
-  width: number;
-  height: number;
-  image: HTMLImageElement | null;
-  lyrics: LyricLine[];
-  currentTime: number;
-  smoothActiveIndex: number;
-  absoluteTime: number; // Monotonic time for animations independent of audio
-  isIntro: boolean;
-  titleOpacity: number; // 0 to 1
-  lyricsOpacity: number; // 0 to 1
-  settings: AppSettings;
-}
+  const segments: { time: number; text: string }[] = [];
+  let cursor = 0;
+  let segmentTime = lineTime;
 
-// Helper to convert hex to RGB object
-function hexToRgb(hex: string) {
-  const shorthandRegex = /^#?([a-f\d])([a-f\d])([a-f\d])$/i;
-  hex = hex.replace(shorthandRegex, (m, r, g, b) => {
-    return r + r + g + g + b + b;
-  });
+  for (const tag of tags) {
+    const chunk = body.slice(cursor, tag.index);
+    if (chunk) segments.push({ time: segmentTime, text: chunk });
+    segmentTime = readTag(tag);
+    cursor = (tag.index ?? 0) + tag[0].length;
+  }
 
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 255, g: 255, b: 255 };
-}
+  const tail = body.slice(cursor);
+  if (tail.trim()) segments.push({ time: segmentTime, text: tail });
+  // A trailing tag with nothing after it closes the last word
+  return buildTimedWords(segments, tail.trim() ? NaN : segmentTime);
+};
 
-// Color interpolation
-function interpolateColor(color1: string, color2: string, factor: number) {
-    const c1 = hexToRgb(color1);
-    const c2 = hexToRgb(color2);
-    const f = Math.max(0, Math.min(1, factor));
-    const r = Math.round(c1.r + (c2.r - c1.r) * f);
-    const g = Math.round(c1.g + (c2.g - c1.g) * f);
-    const b = Math.round(c1.b + (c2.b - c1.b) * f);
-    return `rgb(${r}, ${g}, ${b})`;
-}
+/**
+ * Sorts lines and closes the last word of each word-timed line at the line's
+ * end time, the next line, or a short default, whichever comes first.
+ */
+const finalizeLyrics = (lyrics: LyricLine[]): LyricLine[] => {
+  // Sort by time just in case
+  lyrics.sort((a, b) => a.time - b.time);
 
-// Helper to wrap text into lines based on maxWidth
-function getWrappedLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = words[0];
-
-    for (let i = 1; i < words.length; i++) {
-        const word = words[i];
-        const width = ctx.measureText(currentLine + " " + word).width;
-        if (width < maxWidth) {
-            currentLine += " " + word;
-        } else {
-            lines.push(currentLine);
-            currentLine = word;
-        }
+  lyrics.forEach((line, i) => {
+    const lastWord = line.words?.[line.words.length - 1];
+    if (lastWord && Number.isNaN(lastWord.endTime)) {
+      const nextTime = i < lyrics.length - 1 ? lyrics[i + 1].time : Infinity;
+      const limit = Math.min(nextTime, line.endTime ?? Infinity);
+      lastWord.endTime = Math.max(lastWord.time, Math.min(limit, lastWord.time + DEFAULT_LAST_WORD_DURATION));
     }
-    lines.push(currentLine);
-    return lines;
-}
+  });
+
+  return lyrics;
+};
 
 /**
- * Draws a rounded rectangle image
+ * Folds lines that share a timestamp into one line: the first keeps its text
+ * (and word timings), the following ones become its translations. Expects
+ * lines sorted by time with file order kept for equal times.
  */
-function drawRoundedImage(
-  ctx: CanvasRenderingContext2D,
-  img: HTMLImageElement,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius: number
-) {
-  ctx.save();
-  ctx.beginPath();
-  ctx.roundRect(x, y, width, height, radius);
-  ctx.closePath();
-  ctx.clip();
-  
-  // Draw image covering the area
-  const imgRatio = img.width / img.height;
-  const areaRatio = width / height;
-  
-  let drawWidth, drawHeight, offsetX, offsetY;
-  
-  if (imgRatio > areaRatio) {
-    drawHeight = height;
-    drawWidth = height * imgRatio;
-    offsetX = x - (drawWidth - width) / 2;
-    offsetY = y;
-  } else {
-    drawWidth = width;
-    drawHeight = width / imgRatio;
-    offsetX = x;
-    offsetY = y - (drawHeight - height) / 2;
+const groupTranslations = (lyrics: LyricLine[]): LyricLine[] => {
+  const result: LyricLine[] = [];
+  for (const line of lyrics) {
+    const previous = result[result.length - 1];
+    if (previous && Math.abs(previous.time - line.time) < 0.0005) {
+      previous.translations = [...(previous.translations ?? []), line.text, ...(line.translations ?? [])];
+    } else {
+      result.push(line);
+    }
   }
-
-  ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
-  ctx.restore();
-  
-  // Border
-  ctx.save();
-  ctx.beginPath();
-  ctx.lineWidth = 4;
-  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
-  ctx.roundRect(x, y, width, height, radius);
-  ctx.stroke();
-  ctx.restore();
-}
+  return result;
+};
 
 /**
- * Procedurally draws floating bokeh spots
+ * Attaches the lines of a separately loaded translation file to the lyric
+ * closest in time. Translation lines with no lyric nearby are dropped.
  */
-function drawBokeh(ctx: CanvasRenderingContext2D, width: number, height: number, time: number, settings: AppSettings) {
-    ctx.save();
-    // Use 'screen' or 'lighter' for that dreamy light-addition effect
-    ctx.globalCompositeOperation = 'screen';
-    
-    // Number of particles
-    const particleCount = 15;
-    
-    for (let i = 0; i < particleCount; i++) {
-        // Deterministic randomness based on index
-        const randomBase = (i * 1337) % 1000; 
-        
-        // Speed variation
-        const speed = 0.0002 + (randomBase % 100) * 0.00001;
-        
-        // Movement logic: Sine waves for smooth floating
-        const t = time * speed + randomBase;
-        
-        // Position: Bias towards edges
-        const side = i % 2 === 0 ? -1 : 1; // Left or Right bias
-        const xBase = width / 2 + (width / 2.5) * side; 
-        const xOffset = Math.sin(t) * (width * 0.2);
-        const x = xBase + xOffset;
-        
-        const yBase = height * (0.2 + ((randomBase % 10) / 10) * 0.8); // Spread vertically
-        const yOffset = Math.cos(t * 1.3) * (height * 0.15);
-        const y = yBase + yOffset;
+const mergeTranslations = (lyrics: LyricLine[], translated: LyricLine[]): LyricLine[] => {
+  const merged = lyrics.map(line => ({ ...line, translations: [...(line.translations ?? [])] }));
 
-        // Size
-        let radius = 100;
-        if (settings.bokehAutoSize) {
-            // Oscillate size
-            radius = 150 + Math.sin(t * 2) * 80 + (randomBase % 100);
-        } else {
-            // Fixed base size + slight oscillation
-            const baseSize = 50 + (settings.bokehScale * 4); // Map 0-100 to 50-450
-            radius = baseSize + Math.sin(t * 3) * 20;
-        }
+  for (const extra of translated) {
+    let best = -1;
+    let bestDist = TRANSLATION_MATCH_TOLERANCE;
+    merged.forEach((line, i) => {
+      const dist = Math.abs(line.time - extra.time);
+      if (dist <= bestDist) {
+        best = i;
+        bestDist = dist;
+      }
+    });
+    if (best !== -1) merged[best].translations.push(extra.text, ...(extra.translations ?? []));
+  }
 
-        // Color
-        if (settings.bokehAutoColor) {
-            // Placeholder logic for gradient creation below
-        }
+  return merged.map(({ translations, ...line }) => translations.length ? { ...line, translations } : line);
+};
 
-        // Create Gradient for soft spot
-        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
-        
-        // Alpha calculation: Pulse in and out
-        const alphaBase = 0.15;
-        const alpha = alphaBase + Math.sin(t * 1.7) * 0.05;
+const parseLrc = (lrcContent: string): ParsedLyrics => {
+  const lines = lrcContent.split(/\r?\n/);
+  const result: LyricLine[] = [];
+  const metadata: LrcMetadata = {};
+  const blankStamps: number[] = []; // Empty stamped lines mark where the previous line ends
+  let offsetMs = 0;
+  let currentSinger: Singer | undefined;
 
-        if (settings.bokehAutoColor) {
-            const hue = (t * 50 + randomBase) % 360;
-            gradient.addColorStop(0, `hsla(${hue}, 80%, 60%, ${alpha})`);
-            gradient.addColorStop(1, `hsla(${hue}, 80%, 60%, 0)`);
-        } else {
-            const { r, g, b } = hexToRgb(settings.bokehColor);
-            gradient.addColorStop(0, `rgba(${r}, ${g}, ${b}, ${alpha})`);
-            gradient.addColorStop(1, `rgba(${r}, ${g}, ${b}, 0)`);
-        }
+  for (const line of lines) {
+    // Collect every leading stamp so [00:45.10][01:50.20]Chorus repeats the line
+    const stamps: number[] = [];
+    let rest = line;
+    let match = lineTimeReg.exec(rest);
+    while (match) {
+      stamps.push(toSeconds(match[1], match[2], match[3]));
+      rest = rest.slice(match[0].length);
+      match = lineTimeReg.exec(rest);
+    }
 
-        ctx.fillStyle = gradient;
-        ctx.beginPath();
-        ctx.arc(x, y, radius, 0, Math.PI * 2);
-        ctx.fill();
+    if (stamps.length === 0) {
+      const tag = idTagReg.exec(line);
+      if (!tag) continue;
+
+      const value = tag[2].trim();
+      switch (tag[1].toLowerCase()) {
+        case 'ti': metadata.title = value; break;
+        case 'ar': metadata.artist = value; break;
+        case 'al': metadata.album = value; break;
+        case 'by': metadata.author = value; break;
+        case 'offset': {
+          const parsed = parseInt(value, 10);
+          if (!Number.isNaN(parsed)) offsetMs = parsed;
+          break;
+        }
+      }
+      continue;
     }
-    
-    ctx.restore();
-}
 
-const renderFrame = ({
-  ctx,
-  width,
-  height,
-  image,
-  lyrics,
-  currentTime,
-  smoothActiveIndex,
-  absoluteTime,
-  isIntro,
-  titleOpacity,
-  lyricsOpacity,
-  settings,
-}: RenderContext) => {
-  // 1. Clear Screen
-  ctx.clearRect(0, 0, width, height);
+    // Duet markers stay in effect until the next marker
+    const marker = singerReg.exec(rest);
+    if (marker) {
+      currentSinger = SINGER_MARKERS[marker[1] ?? marker[2]];
+      rest = rest.slice(marker[0].length);
+    }
 
-  // 2. Draw Background
-  const gradient = ctx.createLinearGradient(0, 0, width, height);
-  gradient.addColorStop(0, settings.backgroundColor);
-  gradient.addColorStop(1, '#020617');
-  ctx.fillStyle = gradient;
-  ctx.fillRect(0, 0, width, height);
+    // Word stamps are absolute for the first occurrence, so shift them for repeats
+    const { text, words } = parseWordTimings(rest, stamps[0]);
+    if (!text) {
+      blankStamps.push(...stamps);
+      continue;
+    }
 
-  // 3. Draw blurred background image layer
-  if (image) {
-      ctx.save();
-      ctx.globalAlpha = 0.15;
-      ctx.filter = 'blur(60px) saturate(150%)';
-      ctx.drawImage(image, -width * 0.2, -height * 0.2, width * 1.4, height * 1.4);
-      ctx.restore();
+    for (const stamp of stamps) {
+      const shift = stamp - stamps[0];
+      const parsed: LyricLine = words
+        ? { time: stamp, text, words: words.map(w => ({ ...w, time: w.time + shift, endTime: w.endTime + shift })) }
+        : { time: stamp, text };
+      if (currentSinger) parsed.singer = currentSinger;
+      result.push(parsed);
+    }
   }
 
-  // 4. Draw Bokeh Overlay (Behind content, over background)
-  if (settings.bokehEnabled) {
-      drawBokeh(ctx, width, height, absoluteTime, settings);
+  // A positive [offset:] makes lyrics appear sooner
+  if (offsetMs !== 0) {
+    const shift = offsetMs / 1000;
+    for (const line of result) {
+      line.time = Math.max(0, line.time - shift);
+      line.words?.forEach(w => {
+        w.time = Math.max(0, w.time - shift);
+        w.endTime = Math.max(0, w.endTime - shift);
+      });
+    }
+    blankStamps.forEach((stamp, i) => { blankStamps[i] = Math.max(0, stamp - shift); });
   }
 
-  // Layout Constants
-  const leftPanelWidth = width * 0.4;
-  const rightPanelStart = width * (settings.lyricsXOffset / 100); // Adjustable X
-  const rightPanelWidth = width - rightPanelStart - 50; // Remaining width minus padding
-  const verticalCenter = height / 2;
+  // Same-timestamp lines are translations of the first one
+  result.sort((a, b) => a.time - b.time);
+  const grouped = groupTranslations(result);
+  blankStamps.sort((a, b) => a - b);
 
-  // 5. Draw Album Art (Left Side)
-  if (image) {
-    const imgSize = Math.min(leftPanelWidth * 0.75, height * 0.55);
-    const imgX = (leftPanelWidth - imgSize) / 2 + 60;
-    const imgY = (height - imgSize) / 2;
-    
-    ctx.save();
-    ctx.shadowColor = 'rgba(0,0,0,0.6)';
-    ctx.shadowBlur = 40;
-    ctx.shadowOffsetY = 20;
-    
-    drawRoundedImage(ctx, image, imgX, imgY, imgSize, imgSize, 24);
-    ctx.restore();
-  } else {
-    // Placeholder
-    ctx.fillStyle = 'rgba(255,255,255,0.05)';
-    const imgSize = Math.min(leftPanelWidth * 0.75, height * 0.55);
-    const imgX = (leftPanelWidth - imgSize) / 2 + 60;
-    const imgY = (height - imgSize) / 2;
-    
-    ctx.beginPath();
-    ctx.roundRect(imgX, imgY, imgSize, imgSize, 24);
-    ctx.fill();
-    
-    ctx.fillStyle = 'rgba(255,255,255,0.3)';
-    ctx.font = '500 32px Inter';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText('No Cover Art', imgX + imgSize/2, imgY + imgSize/2);
-  }
+  // A blank stamp before the next line ends the current one
+  grouped.forEach((line, i) => {
+    const nextTime = i < grouped.length - 1 ? grouped[i + 1].time : Infinity;
+    const end = blankStamps.find(stamp => stamp > line.time && stamp <= nextTime);
+    if (end !== undefined) line.endTime = end;
+  });
 
-  // 6. INTRO MODE: Show Title
-  if (isIntro) {
-      ctx.textAlign = 'left';
-      ctx.textBaseline = 'middle';
+  return { lyrics: finalizeLyrics(grouped), metadata };
+};
+
+/**
+ * Returns how many characters of a word-timed line have been sung at `time`.
+ * The result is fractional so the fill can move smoothly through a word.
+ */
+const getSungCharCount = (line: LyricLine, time: number): number => {
+  if (!line.words) return time >= line.time ? line.text.length : 0;
+
+  let count = 0;
+  for (const word of line.words) {
+    if (time >= word.endTime) {
+      count += word.text.length;
+    } else {
+      if (time > word.time) {
+        const progress = (time - word.time) / (word.endTime - word.time);
+        count += word.text.length * progress;
+      }
+      break;
+    }
+  }
+  return count;
+};
+
+// --- UTILS: LYRICS FORMATS ---
+
+export type LyricsExportFormat = 'lrc' | 'srt' | 'vtt';
+
+// SRT / WebVTT cue time: [hh:]mm:ss,mmm or [hh:]mm:ss.mmm
+const cueTimeReg = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+// WebVTT inline karaoke stamps: <hh:mm:ss.mmm> or <mm:ss.mmm>
+const vttWordTimeReg = /<(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})>/g;
+
+// ASS time: h:mm:ss.cc
+const assTimeReg = /^(\d+):(\d{2}):(\d{2})[.:](\d{1,3})$/;
+
+// Subtitles without an end time stay up until the next line, at most this long
+const MAX_CUE_DURATION = 8.0; // Seconds
+
+const readCueTime = (match: RegExpMatchArray): number => {
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  return hours * 3600 + toSeconds(match[2], match[3], match[4]);
+};
+
+// Removes formatting tags (<i>, <c.yellow>, {\an8}) from a subtitle cue
+const stripCueMarkup = (text: string): string =>
+  text.replace(/<\/?[a-z][^>]*>/gi, '').replace(/\{[^}]*\}/g, '');
+
+/**
+ * Parses SRT or WebVTT cues. Both formats are blocks separated by blank lines
+ * with an "start --> end" timing line; multi-line cues are joined with spaces.
+ */
+const parseSubtitleCues = (content: string): ParsedLyrics => {
+  const blocks = content.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/);
+  const result: LyricLine[] = [];
+
+  for (const block of blocks) {
+    const rows = block.split(/\r?\n/);
+    const timingIdx = rows.findIndex(row => row.includes('-->'));
+    if (timingIdx === -1) continue; // Header, NOTE, STYLE or REGION block
+
+    const [startPart, endPart] = rows[timingIdx].split('-->');
+    const start = cueTimeReg.exec(startPart);
+    const end = cueTimeReg.exec(endPart);
+    if (!start || !end) continue;
+
+    const time = readCueTime(start);
+    const endTime = readCueTime(end);
+    const body = stripCueMarkup(rows.slice(timingIdx + 1).join(' '));
+
+    const { text, words } = parseWordTimings(body, time, vttWordTimeReg, readCueTime);
+    if (!text) continue;
+
+    result.push(words ? { time, endTime, text, words } : { time, endTime, text: text.replace(/\s+/g, ' ') });
+  }
+
+  return { lyrics: finalizeLyrics(result), metadata: {} };
+};
+
+/**
+ * Parses Dialogue events of an ASS/SSA script. Karaoke override tags
+ * ({\k}, {\kf}, {\ko}, {\K}) become word timings.
+ */
+const parseAss = (content: string): ParsedLyrics => {
+  const lines = content.split(/\r?\n/);
+  const result: LyricLine[] = [];
+  const metadata: LrcMetadata = {};
+  let section = '';
+  let format = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      section = line.toLowerCase();
+      continue;
+    }
+
+    if (section === '[script info]' && /^title:/i.test(line)) {
+      metadata.title = line.slice(line.indexOf(':') + 1).trim();
+    } else if (section === '[events]' && /^format:/i.test(line)) {
+      format = line.slice(line.indexOf(':') + 1).split(',').map(f => f.trim().toLowerCase());
+    } else if (section === '[events]' && /^dialogue:/i.test(line)) {
+      // The text field is last and may itself contain commas
+      const fields = line.slice(line.indexOf(':') + 1).split(',');
+      const textField = fields.slice(format.length - 1).join(',');
+      const start = assTimeReg.exec(fields[format.indexOf('start')]?.trim() ?? '');
+      const end = assTimeReg.exec(fields[format.indexOf('end')]?.trim() ?? '');
+      if (!start || !end) continue;
+
+      const time = readCueTime(start);
+      const endTime = readCueTime(end);
+
+      // Walk override blocks, starting a new syllable at every karaoke tag
+      const body = textField.replace(/\\[Nn]/g, ' ').replace(/\\h/g, ' ');
+      const segments: { time: number; text: string }[] = [];
+      let cursor = time;
+      let hasKaraoke = false;
+      for (const part of body.split(/(\{[^}]*\})/)) {
+        const karaoke = /^\{.*\\[kK][fo]?(\d+)/.exec(part);
+        if (karaoke) {
+          hasKaraoke = true;
+          segments.push({ time: cursor, text: '' });
+          cursor += parseInt(karaoke[1], 10) / 100;
+        } else if (!part.startsWith('{')) {
+          if (segments.length === 0) segments.push({ time, text: '' });
+          segments[segments.length - 1].text += part;
+        }
+      }
+
+      if (hasKaraoke) {
+        const { text, words } = buildTimedWords(segments, cursor);
+        if (text) result.push(words ? { time, endTime, text, words } : { time, endTime, text });
+      } else {
+        const text = segments.map(s => s.text).join('').replace(/\s+/g, ' ').trim();
+        if (text) result.push({ time, endTime, text });
+      }
+    }
+  }
+
+  return { lyrics: finalizeLyrics(result), metadata };
+};
+
+/**
+ * Picks a parser from the file extension (or content for .txt files).
+ */
+const parseLyricsFile = (fileName: string, content: string): ParsedLyrics => {
+  const ext = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+
+  if (ext === 'ass' || ext === 'ssa' || head.startsWith('[Script Info]')) return parseAss(content);
+  if (ext === 'vtt' || head.startsWith('WEBVTT')) return parseSubtitleCues(content);
+  if (ext === 'srt' || /^\d+\s*\r?\n[\d:,.]+\s*-->/.test(head)) return parseSubtitleCues(content);
+  return parseLrc(content);
+};
+
+/**
+ * End of a line: its own end time, the end of its last word, or the next line
+ * capped at `untimedDuration` (MAX_CUE_DURATION for subtitle cues).
+ */
+const getLineEndTime = (lyrics: LyricLine[], index: number, untimedDuration: number = MAX_CUE_DURATION): number => {
+  const line = lyrics[index];
+  if (line.endTime !== undefined) return line.endTime;
+  if (line.words?.length) return line.words[line.words.length - 1].endTime;
+  const nextTime = index < lyrics.length - 1 ? lyrics[index + 1].time : Infinity;
+  return Math.min(nextTime, line.time + untimedDuration);
+};
+
+// mm:ss.xx (minutes may exceed 99)
+const formatLrcTime = (seconds: number): string => {
+  const hundredths = Math.round(Math.max(0, seconds) * 100);
+  const minutes = Math.floor(hundredths / 6000);
+  const secs = Math.floor((hundredths % 6000) / 100);
+  const frac = hundredths % 100;
+  return `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(frac).padStart(2, '0')}`;
+};
+
+// hh:mm:ss,mmm (SRT) or hh:mm:ss.mmm (WebVTT)
+const formatCueTime = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const secs = Math.floor((ms % 60000) / 1000);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(ms % 1000).padStart(3, '0')}`;
+};
+
+const SINGER_EXPORT_MARKERS: Record<Singer, string> = { v1: 'M', v2: 'F', both: 'D' };
+
+const formatLrc = (lyrics: LyricLine[], metadata: LrcMetadata): string => {
+  const out: string[] = [];
+  if (metadata.title) out.push(`[ti:${metadata.title}]`);
+  if (metadata.artist) out.push(`[ar:${metadata.artist}]`);
+  if (metadata.album) out.push(`[al:${metadata.album}]`);
+  if (metadata.author) out.push(`[by:${metadata.author}]`);
+
+  let lastSinger: Singer | undefined;
+
+  lyrics.forEach((line, i) => {
+    // Duet markers are only written when the singer changes
+    const marker = line.singer && line.singer !== lastSinger ? `${SINGER_EXPORT_MARKERS[line.singer]}: ` : '';
+    lastSinger = line.singer ?? lastSinger;
+
+    const body = marker + (line.words
+      ? line.words.map(w => `<${formatLrcTime(w.time)}>${w.text}`).join('') + `<${formatLrcTime(line.words[line.words.length - 1].endTime)}>`
+      : line.text);
+    out.push(`[${formatLrcTime(line.time)}]${body}`);
+    // Translations repeat the stamp of their line
+    line.translations?.forEach(text => out.push(`[${formatLrcTime(line.time)}]${text}`));
+
+    // Keep explicit end times as a blank stamp when there is a gap
+    const nextTime = i < lyrics.length - 1 ? lyrics[i + 1].time : Infinity;
+    if (line.endTime !== undefined && line.endTime < nextTime) {
+      out.push(`[${formatLrcTime(line.endTime)}]`);
+    }
+  });
+
+  return out.join('\n') + '\n';
+};
+
+// Cue body: the lyric, then one row per translation
+const getCueText = (line: LyricLine): string => [line.text, ...(line.translations ?? [])].join('\n');
+
+const formatSrt = (lyrics: LyricLine[]): string =>
+  lyrics.map((line, i) =>
+    `${i + 1}\n${formatCueTime(line.time, ',')} --> ${formatCueTime(getLineEndTime(lyrics, i), ',')}\n${getCueText(line)}\n`
+  ).join('\n');
+
+const formatVtt = (lyrics: LyricLine[]): string =>
+  'WEBVTT\n\n' + lyrics.map((line, i) =>
+    `${formatCueTime(line.time, '.')} --> ${formatCueTime(getLineEndTime(lyrics, i), '.')}\n${getCueText(line)}\n`
+  ).join('\n');
+
+const formatLyrics = (format: LyricsExportFormat, lyrics: LyricLine[], metadata: LrcMetadata): string => {
+  switch (format) {
+    case 'lrc': return formatLrc(lyrics, metadata);
+    case 'srt': return formatSrt(lyrics);
+    case 'vtt': return formatVtt(lyrics);
+  }
+};
+
+// --- UTILS: TAP SYNC ---
+
+// How far the rewind key jumps back while tapping
+const SYNC_REWIND_SECONDS = 3;
+
+// One lyric line per non-empty row; stamps and ID tags from pasted LRC are dropped
+const splitPlainLyrics = (text: string): string[] =>
+  text.split(/\r?\n/)
+    .map(row => row.replace(/^(\s*\[[^\]]*\])+/, '').replace(/<[\d:.]+>/g, '').trim())
+    .filter(Boolean);
+
+/**
+ * Pairs the tapped stamps with the first lines, in order. A line that is still
+ * the same in `previous` keeps its translation, singer and word timings, moved
+ * to the new stamp. Untapped lines keep their old time while it stays in order.
+ */
+const buildSyncedLyrics = (lines: string[], stamps: number[], previous: LyricLine[]): LyricLine[] => {
+  const synced: LyricLine[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const old = previous[i]?.text.trim() === lines[i] ? previous[i] : null;
+    const stamp = stamps[i];
+    if (stamp === undefined) {
+      if (!old || old.time < (synced[synced.length - 1]?.time ?? 0)) break;
+      synced.push(old);
+    } else {
+      synced.push(old ? mapLineTimes(old, t => t + stamp - old.time) : { time: stamp, text: lines[i] });
+    }
+  }
+  return synced;
+};
+
+// --- UTILS: TIMING CORRECTION ---
+
+// Step of the per-line nudge buttons, in seconds
+const LINE_NUDGE_STEP = 0.05;
+
+// A line picked for the two-point re-time and the time it should really start at
+export interface RetimeAnchor {
+  index: number;
+  time: number; // Corrected start time in seconds
+}
+
+// Applies `map` to every stamp of a line: its start, end and word timings
+const mapLineTimes = (line: LyricLine, map: (time: number) => number): LyricLine => ({
+  ...line,
+  time: map(line.time),
+  endTime: line.endTime === undefined ? undefined : map(line.endTime),
+  words: line.words?.map(w => ({ ...w, time: map(w.time), endTime: map(w.endTime) })),
+});
+
+// Moves every line by `offset` seconds (positive is later). The first line stops
+// at 0, so a large negative offset keeps the gaps instead of stacking lines there.
+const shiftLyrics = (lyrics: LyricLine[], offset: number): LyricLine[] => {
+  const clamped = Math.max(offset, -(lyrics[0]?.time ?? 0));
+  return lyrics.map(line => mapLineTimes(line, t => Math.max(0, t + clamped)));
+};
+
+/**
+ * Moves one line by `delta` seconds. The line stays between its neighbours so
+ * the order of the lyrics, which the timeline relies on, never changes.
+ */
+const nudgeLine = (lyrics: LyricLine[], index: number, delta: number): LyricLine[] => {
+  const line = lyrics[index];
+  if (!line) return lyrics;
+  const min = lyrics[index - 1]?.time ?? 0;
+  const max = lyrics[index + 1]?.time ?? Infinity;
+  const offset = Math.max(min, Math.min(max, line.time + delta)) - line.time;
+  return lyrics.map((l, i) => i === index ? mapLineTimes(l, t => Math.max(0, t + offset)) : l);
+};
+
+/**
+ * Two-point linear re-time for lyrics timed against a master that drifts: the
+ * lines from one anchor to the other are stretched so both anchors land on their
+ * corrected times. With `extrapolate` the same mapping also moves the lines
+ * before and after them, for drift that runs through the whole song.
+ */
+const retimeLyrics = (lyrics: LyricLine[], a: RetimeAnchor, b: RetimeAnchor, extrapolate: boolean): LyricLine[] => {
+  const [first, last] = a.index < b.index ? [a, b] : [b, a];
+  const from = lyrics[first.index]?.time;
+  const to = lyrics[last.index]?.time;
+  if (from === undefined || to === undefined || from === to) {
+    throw new Error('Pick two lines with different times.');
+  }
+  const scale = (last.time - first.time) / (to - from);
+  if (scale <= 0) throw new Error('The corrected times must keep the two lines in order.');
+
+  const map = (t: number) => Math.max(0, first.time + (t - from) * scale);
+  if (extrapolate) return lyrics.map(line => mapLineTimes(line, map));
+
+  // Lines outside the anchors keep their times, so the anchors must still fit between them
+  const before = lyrics[first.index - 1]?.time ?? 0;
+  const after = lyrics[last.index + 1]?.time ?? Infinity;
+  if (first.time < before || last.time > after) {
+    throw new Error('The corrected times would move the anchors past the lines around them.');
+  }
+  return lyrics.map((line, i) => i >= first.index && i <= last.index ? mapLineTimes(line, map) : line);
+};
+
+// --- UTILS: TIMELINE ---
+
+/**
+ * Everything that animates in a frame, derived only from the timeline time.
+ * The timeline starts with the intro card, the song (or the clip range of it)
+ * starts at `introDuration` and the outro runs for `outroDuration` after it ends.
+ */
+export interface FrameState {
+  currentTime: number;       // Song time in seconds (held at the range start during the intro and its end during the outro)
+  smoothActiveIndex: number; // Fractional lyric index for the scroll position
+  absoluteTime: number;      // Timeline time in milliseconds, drives the bokeh motion
+  isIntro: boolean;
+  isOutro: boolean;
+  titleOpacity: number;      // 0 to 1
+  lyricsOpacity: number;     // 0 to 1
+  endCardOpacity: number;    // 0 to 1
+  fadeOutOpacity: number;    // 0 to 1, black drawn over the whole frame
+  instrumentalBreak: InstrumentalBreak | null; // Null while singing or with the indicator off
+}
+
+/**
+ * A stretch of the song without singing, from the end of one line (or the
+ * start of the song) to the start of `nextIndex`.
+ */
+export interface InstrumentalBreak {
+  start: number;     // Song time in seconds
+  end: number;
+  nextIndex: number; // Line sung after the break
+  elapsed: number;   // Seconds since the break started
+  remaining: number; // Seconds until the next line
+}
+
+// Seconds for the title to fade out and the lyrics to fade in
+const INTRO_FADE_DURATION = 0.5;
+
+// Seconds for the end card to fade in and, at the very end, for the picture to fade to black
+const OUTRO_FADE_DURATION = 1;
+
+// Easing curves mapping transition progress 0..1 onto 0..1 ('back' overshoots)
+const EASINGS: Record<TransitionEasing, (x: number) => number> = {
+  linear: x => x,
+  easeOut: x => 1 - (1 - x) ** 3,
+  easeInOut: x => x < 0.5 ? 4 * x * x * x : 1 - (-2 * x + 2) ** 3 / 2,
+  expo: x => x >= 1 ? 1 : 1 - 2 ** (-10 * x),
+  back: x => 1 + 2.70158 * (x - 1) ** 3 + 1.70158 * (x - 1) ** 2,
+};
+
+// Eased progress of a transition that started at `startTime`
+const getTransitionProgress = (startTime: number, time: number, settings: AppSettings): number => {
+  const x = Math.max(0, Math.min(1, (time - startTime) / settings.transitionDuration));
+  return EASINGS[settings.transitionEasing](x);
+};
+
+// Seconds an untimed line is assumed to be sung before a break can start
+const UNTIMED_LINE_DURATION = 4;
+
+// Index of the last line whose time has been reached
+const getActiveIndex = (lyrics: LyricLine[], time: number): number => {
+  let activeIndex = 0;
+  for (let i = 0; i < lyrics.length; i++) {
+    if (time >= lyrics[i].time) activeIndex = i;
+    else break;
+  }
+  return activeIndex;
+};
+
+/**
+ * Scroll position at `time`. Every line change eases in over the transition
+ * duration from the moment that line starts, so the result never depends on
+ * previous frames.
+ */
+const getSmoothActiveIndex = (lyrics: LyricLine[], time: number, settings: AppSettings): number => {
+  const activeIndex = getActiveIndex(lyrics, time);
+  let lag = 0;
+  for (let i = activeIndex; i >= 1; i--) {
+    if (time - lyrics[i].time >= settings.transitionDuration) break; // Earlier changes have settled too (lines are sorted)
+    lag += 1 - getTransitionProgress(lyrics[i].time, time, settings);
+  }
+  return activeIndex - lag;
+};
+
+/**
+ * The break at `time`, if the gap around it is at least `threshold` seconds.
+ * The lead-in before the first line counts as a break too.
+ */
+const getInstrumentalBreak = (lyrics: LyricLine[], time: number, threshold: number): InstrumentalBreak | null => {
+  if (lyrics.length === 0) return null;
+  let start = 0;
+  let nextIndex = 0;
+  if (time >= lyrics[0].time) {
+    const activeIndex = getActiveIndex(lyrics, time);
+    if (activeIndex === lyrics.length - 1) return null; // Nothing left to wait for
+    nextIndex = activeIndex + 1;
+    start = Math.min(getLineEndTime(lyrics, activeIndex, UNTIMED_LINE_DURATION), lyrics[nextIndex].time);
+  }
+  const end = lyrics[nextIndex].time;
+  if (end - start < threshold || time < start) return null;
+  return { start, end, nextIndex, elapsed: time - start, remaining: end - time };
+};
+
+// Seconds for one slide to crossfade into the next, ending as its section starts
+const SLIDE_CROSSFADE = 1.5;
+
+// Seconds per slide when there are no lyrics to divide the song into sections
+const SLIDE_INTERVAL = 10;
+
+/**
+ * Slideshow position at `time`. A new section (and the next slide) starts with the
+ * first line after each instrumental break; songs with fewer breaks than slides
+ * are split into sections of equal line counts instead. Slides repeat in order.
+ */
+const getSlideState = (lyrics: LyricLine[], time: number, slideCount: number, threshold: number) => {
+  let starts: number[];
+  if (lyrics.length === 0) {
+    starts = Array.from({ length: Math.floor(time / SLIDE_INTERVAL) + 1 }, (_, k) => (k + 1) * SLIDE_INTERVAL);
+  } else {
+    starts = lyrics.slice(1)
+      .filter((line, i) => line.time - Math.min(getLineEndTime(lyrics, i, UNTIMED_LINE_DURATION), line.time) >= threshold)
+      .map(line => line.time);
+    if (starts.length < slideCount - 1) {
+      starts = Array.from({ length: slideCount - 1 }, (_, k) => lyrics[Math.round((k + 1) * lyrics.length / slideCount)]?.time)
+        .filter((start): start is number => start !== undefined);
+    }
+  }
+
+  const section = starts.filter(start => time >= start - SLIDE_CROSSFADE).length;
+  const fade = section > 0 ? Math.min(1, (time - (starts[section - 1] - SLIDE_CROSSFADE)) / SLIDE_CROSSFADE) : 1;
+  return { current: section % slideCount, previous: (section + slideCount - 1) % slideCount, fade };
+};
+
+/**
+ * The part of the song on the timeline and the intro before it
+ */
+export interface SongRange {
+  start: number; // Song time in seconds
+  end: number;
+  introDuration: number;
+}
+
+/**
+ * The whole song, or the clip range (clamped to the song) when a clip is set.
+ * Clips only get the intro card when `clipIntro` is on.
+ */
+const getSongRange = (settings: AppSettings, songDuration: number): SongRange => {
+  if (!settings.clipEnabled) return { start: 0, end: songDuration, introDuration: settings.introDuration };
+  const start = Math.max(0, Math.min(settings.clipStart, songDuration));
+  const end = Math.max(start, Math.min(settings.clipEnd, songDuration));
+  return { start, end, introDuration: settings.clipIntro ? settings.introDuration : 0 };
+};
+
+// Shortest clip the in and out points can be dragged to, in seconds
+const MIN_CLIP_DURATION = 1;
+
+// Reads a time typed as mm:ss.xx or as plain seconds; null when it is neither
+const parseTimeInput = (text: string): number | null => {
+  const match = text.trim().match(/^(\d+):(\d{1,2})(?:\.(\d{1,3}))?$/);
+  if (match) return toSeconds(match[1], match[2], match[3]);
+  const seconds = Number(text.trim());
+  return text.trim() && Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+};
+
+/**
+ * Computes the frame state for a point on the timeline. When `fps` is given the
+ * time is snapped to the start of its frame, so previews of a frame match the export.
+ * Pass `Infinity` as `songDuration` while the length of the audio is unknown.
+ */
+const getFrameState = (timelineTime: number, lyrics: LyricLine[], settings: AppSettings, songDuration: number, fps?: number): FrameState => {
+  const time = fps ? Math.floor(timelineTime * fps + 1e-6) / fps : timelineTime;
+  const range = getSongRange(settings, songDuration);
+  const rangeLength = range.end - range.start;
+  const isIntro = time < range.introDuration;
+  const songTime = isIntro ? 0 : time - range.introDuration; // Seconds into the range
+  const isOutro = settings.outroDuration > 0 && songTime > rangeLength;
+  const currentTime = range.start + Math.min(songTime, rangeLength);
+
+  // Short outros split their time evenly between the card fade-in and the fade to black
+  const outroTime = isOutro ? Math.min(songTime - rangeLength, settings.outroDuration) : 0;
+  const outroFade = Math.min(OUTRO_FADE_DURATION, settings.outroDuration / 2);
+  const endCardOpacity = isOutro ? Math.min(1, outroTime / outroFade) : 0;
+
+  return {
+    currentTime,
+    smoothActiveIndex: getSmoothActiveIndex(lyrics, currentTime, settings),
+    absoluteTime: time * 1000,
+    isIntro,
+    isOutro,
+    titleOpacity: isIntro ? Math.max(0, Math.min(1, (range.introDuration - time) / INTRO_FADE_DURATION)) : 0,
+    lyricsOpacity: isIntro ? 0 : Math.min(1, songTime / INTRO_FADE_DURATION) * (1 - endCardOpacity),
+    endCardOpacity,
+    fadeOutOpacity: isOutro ? Math.max(0, 1 - (settings.outroDuration - outroTime) / outroFade) : 0,
+    instrumentalBreak: settings.breakIndicator !== 'none' && !isIntro && !isOutro
+      ? getInstrumentalBreak(lyrics, currentTime, settings.breakThreshold)
+      : null,
+  };
+};
+
+// --- UTILS: AUDIO ANALYSIS ---
+
+/**
+ * What the visuals react to at one point in the song
+ */
+export interface AudioFeatures {
+  spectrum: Float32Array; // SPECTRUM_BANDS log-spaced band levels, 0 to 1
+  level: number;          // Loudness relative to the loudest part of the song, 0 to 1
+  beat: number;           // 1 on a detected beat, decaying towards 0
+}
+
+/**
+ * Song-wide data the features are read from. Built once per decoded track, so any
+ * frame can be analyzed on its own (preview, realtime recording and offline export agree).
+ */
+export interface AudioAnalysis {
+  channels: Float32Array[];
+  sampleRate: number;
+  rms: Float32Array; // RMS per ANALYSIS_HOP samples
+  peakRms: number;
+  beats: number[];   // Beat times in seconds, sorted
+}
+
+const FFT_SIZE = 2048;
+const ANALYSIS_HOP = 1024;
+const SPECTRUM_BANDS = 48;
+const SPECTRUM_MIN_HZ = 40;
+const SPECTRUM_MAX_HZ = 16000;
+const SPECTRUM_FLOOR_DB = -70; // Band level 0; full scale is 1
+const SPECTRUM_SMOOTHING_LAG = 0.04; // Seconds; blending in an earlier window steadies the bars
+const BEAT_HISTORY = 1.0; // Seconds of energy a beat is compared against
+const BEAT_SENSITIVITY = 1.4; // Energy ratio over the recent average that counts as a beat
+const BEAT_MIN_INTERVAL = 0.25; // Seconds
+const BEAT_DECAY = 0.15; // Pulse time constant in seconds
+
+const HANN_WINDOW = Float32Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+
+// In-place iterative radix-2 FFT
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+/**
+ * Measures loudness and finds beats (energy jumps over the recent average) for a decoded track.
+ */
+const analyzeAudioBuffer = (buffer: AudioBuffer): AudioAnalysis => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const { sampleRate } = buffer;
+  const hops = Math.ceil(buffer.length / ANALYSIS_HOP);
+  const rms = new Float32Array(hops);
+  let peakRms = 0;
+
+  for (let h = 0; h < hops; h++) {
+    const from = h * ANALYSIS_HOP;
+    const to = Math.min(buffer.length, from + ANALYSIS_HOP);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+    }
+    rms[h] = Math.sqrt(sum / ((to - from) * channels.length));
+    peakRms = Math.max(peakRms, rms[h]);
+  }
+
+  const beats: number[] = [];
+  const historyHops = Math.max(1, Math.round((BEAT_HISTORY * sampleRate) / ANALYSIS_HOP));
+  let historySum = 0;
+  for (let h = 0; h < hops; h++) {
+    const energy = rms[h] * rms[h];
+    const average = h > 0 ? historySum / Math.min(h, historyHops) : Infinity;
+    const time = (h * ANALYSIS_HOP) / sampleRate;
+    const lastBeat = beats.length ? beats[beats.length - 1] : -Infinity;
+    // Ignore near-silence so fades and quiet intros do not trigger beats
+    if (energy > average * BEAT_SENSITIVITY && rms[h] > peakRms * 0.1 && time - lastBeat >= BEAT_MIN_INTERVAL) {
+      beats.push(time);
+    }
+    historySum += energy;
+    if (h >= historyHops) historySum -= rms[h - historyHops] ** 2;
+  }
+
+  return { channels, sampleRate, rms, peakRms, beats };
+};
+
+// Log-spaced band levels of the window centered on `time`
+const getSpectrum = (analysis: AudioAnalysis, time: number): Float32Array => {
+  const { channels, sampleRate } = analysis;
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  const start = Math.round(time * sampleRate) - FFT_SIZE / 2;
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const index = start + i;
+    if (index < 0 || index >= channels[0].length) continue;
+    let sample = 0;
+    for (const data of channels) sample += data[index];
+    re[i] = (sample / channels.length) * HANN_WINDOW[i];
+  }
+  fft(re, im);
+
+  const spectrum = new Float32Array(SPECTRUM_BANDS);
+  const binHz = sampleRate / FFT_SIZE;
+  for (let band = 0; band < SPECTRUM_BANDS; band++) {
+    const lowHz = SPECTRUM_MIN_HZ * (SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ) ** (band / SPECTRUM_BANDS);
+    const highHz = SPECTRUM_MIN_HZ * (SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ) ** ((band + 1) / SPECTRUM_BANDS);
+    const lowBin = Math.max(1, Math.floor(lowHz / binHz));
+    const highBin = Math.min(FFT_SIZE / 2, Math.max(lowBin + 1, Math.ceil(highHz / binHz)));
+    let peak = 0;
+    for (let bin = lowBin; bin < highBin; bin++) peak = Math.max(peak, Math.hypot(re[bin], im[bin]));
+    // A full-scale sine peaks at FFT_SIZE / 4 after the Hann window
+    const db = 20 * Math.log10(peak / (FFT_SIZE / 4) + 1e-9);
+    spectrum[band] = Math.max(0, Math.min(1, 1 - db / SPECTRUM_FLOOR_DB));
+  }
+  return spectrum;
+};
+
+// Only the visualizer and the audio-reactive motion read the analysis
+const needsAudioAnalysis = (settings: AppSettings): boolean =>
+  settings.visualizer !== 'none' || settings.audioReactive;
+
+/**
+ * Reads the audio features at a song time. Depends only on the analysis and the
+ * time, so exported frames react exactly like the preview.
+ */
+const getAudioFeatures = (analysis: AudioAnalysis, time: number): AudioFeatures => {
+  const current = getSpectrum(analysis, time);
+  const earlier = getSpectrum(analysis, time - SPECTRUM_SMOOTHING_LAG);
+  const spectrum = current.map((value, i) => Math.max(value, earlier[i] * 0.85));
+
+  const hop = Math.floor((time * analysis.sampleRate) / ANALYSIS_HOP);
+  const rms = hop >= 0 && hop < analysis.rms.length ? analysis.rms[hop] : 0;
+  const level = analysis.peakRms > 0 ? rms / analysis.peakRms : 0;
+
+  // Pulse from the most recent beat at or before `time`
+  const { beats } = analysis;
+  let lo = 0;
+  let hi = beats.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (beats[mid] <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  const beat = lo > 0 ? Math.exp(-(time - beats[lo - 1]) / BEAT_DECAY) : 0;
+
+  return { spectrum, level, beat };
+};
+
+// --- UTILS: WAVEFORM ---
+
+/**
+ * Peak amplitude of a decoded track per short bucket, computed once per song so
+ * the timeline can be redrawn at any zoom without touching the samples again.
+ */
+export interface WaveformPeaks {
+  peaks: Float32Array; // Loudest sample per bucket across channels, normalized to 0..1
+  peaksPerSecond: number;
+  duration: number;    // Seconds
+}
+
+const WAVEFORM_PEAKS_PER_SECOND = 100;
+
+// Zoom factors of the timeline; 1 fits the whole song into the panel
+const TIMELINE_ZOOM_LEVELS = [1, 2, 4, 8, 16];
+
+// Pixels a lyric marker must move before a click on it becomes a drag
+const MARKER_DRAG_THRESHOLD = 3;
+
+// Canvases wider than this are stretched instead of drawn at full resolution
+const MAX_WAVEFORM_CANVAS_WIDTH = 16384;
+
+const computeWaveformPeaks = (buffer: AudioBuffer): WaveformPeaks => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const bucket = Math.max(1, Math.round(buffer.sampleRate / WAVEFORM_PEAKS_PER_SECOND));
+  const peaks = new Float32Array(Math.ceil(buffer.length / bucket));
+  let loudest = 0;
+
+  for (let b = 0; b < peaks.length; b++) {
+    const to = Math.min(buffer.length, (b + 1) * bucket);
+    let peak = 0;
+    for (const data of channels) {
+      for (let i = b * bucket; i < to; i++) peak = Math.max(peak, Math.abs(data[i]));
+    }
+    peaks[b] = peak;
+    loudest = Math.max(loudest, peak);
+  }
+
+  if (loudest > 0) peaks.forEach((peak, b) => { peaks[b] = peak / loudest; });
+  return { peaks, peaksPerSecond: buffer.sampleRate / bucket, duration: buffer.duration };
+};
+
+/**
+ * Draws the whole waveform across the canvas as mirrored bars, one per pixel
+ * column, each as tall as the loudest peak in its stretch of the song.
+ */
+const drawWaveform = (canvas: HTMLCanvasElement, waveform: WaveformPeaks, color: string) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = color;
+
+  const { peaks } = waveform;
+  const perColumn = peaks.length / width;
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor(x * perColumn);
+    const to = Math.max(from + 1, Math.floor((x + 1) * perColumn));
+    let peak = 0;
+    for (let b = from; b < to && b < peaks.length; b++) peak = Math.max(peak, peaks[b]);
+    const barHeight = Math.max(1, peak * height);
+    ctx.fillRect(x, (height - barHeight) / 2, 1, barHeight);
+  }
+};
+
+// --- UTILS: ONSET DETECTION ---
+
+/**
+ * A point where something new starts in the vocal band. Phrase starts follow a
+ * quieter stretch, which is where sung lines usually begin.
+ */
+export interface Onset {
+  time: number;     // Seconds
+  strength: number; // Flux over the local average, 1 is the detection threshold
+  phraseStart: boolean;
+}
+
+const ONSET_MIN_HZ = 200;  // Vocal band: above bass and kick drum...
+const ONSET_MAX_HZ = 3500; // ...and below most cymbals
+const ONSET_THRESHOLD_WINDOW = 0.5; // Seconds either side the flux is averaged over
+const ONSET_SENSITIVITY = 1.5; // Flux ratio over the local average that counts as an onset
+const ONSET_ENERGY_FLOOR = 0.001; // Vocal band energy relative to the loudest hop; quieter onsets are noise
+const ONSET_MIN_INTERVAL = 0.15; // Seconds
+const ONSET_RISE = 0.05; // Seconds the band energy must grow over; flux from a fading note is not an onset
+const PHRASE_SILENCE = 0.5; // Seconds before and after an onset compared for the phrase gate
+const PHRASE_GATE = 0.5; // Energy before / after ratio below which the onset starts a phrase
+
+const ONSET_YIELD_HOPS = 500; // Hops analyzed between yields to the UI
+
+// Tapped stamps snap to an onset this far before or after them; taps tend to come late
+const ONSET_SNAP_BEFORE = 0.3; // Seconds
+const ONSET_SNAP_AFTER = 0.1;
+
+/**
+ * Finds onsets from the spectral flux (rise of the log magnitudes) in the vocal
+ * band, then marks those where the band was quiet just before as phrase starts.
+ * Yields between chunks of hops so a long song does not freeze the UI.
+ */
+const detectVocalOnsets = async (buffer: AudioBuffer, signal: AbortSignal): Promise<Onset[]> => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const { sampleRate, length } = buffer;
+  if (length < FFT_SIZE) return [];
+
+  const hops = Math.floor((length - FFT_SIZE) / ANALYSIS_HOP) + 1;
+  const minBin = Math.ceil((ONSET_MIN_HZ * FFT_SIZE) / sampleRate);
+  const maxBin = Math.floor((ONSET_MAX_HZ * FFT_SIZE) / sampleRate);
+  const flux = new Float32Array(hops);
+  const energy = new Float32Array(hops);
+  const previous = new Float32Array(maxBin + 1);
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+
+  for (let h = 0; h < hops; h++) {
+    if (h % ONSET_YIELD_HOPS === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (signal.aborted) throw new DOMException('Onset detection cancelled', 'AbortError');
+    }
+    const from = h * ANALYSIS_HOP;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      let sum = 0;
+      for (const data of channels) sum += data[from + i];
+      re[i] = (sum / channels.length) * HANN_WINDOW[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = minBin; k <= maxBin; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      const magnitude = Math.log1p(Math.sqrt(power));
+      if (h > 0) flux[h] += Math.max(0, magnitude - previous[k]);
+      previous[k] = magnitude;
+      energy[h] += power;
+    }
+  }
+
+  // Prefix sums for the local averages
+  const fluxSums = new Float64Array(hops + 1);
+  const energySums = new Float64Array(hops + 1);
+  let peakEnergy = 0;
+  for (let h = 0; h < hops; h++) {
+    fluxSums[h + 1] = fluxSums[h] + flux[h];
+    energySums[h + 1] = energySums[h] + energy[h];
+    peakEnergy = Math.max(peakEnergy, energy[h]);
+  }
+  const mean = (sums: Float64Array, from: number, to: number) => {
+    const a = Math.max(0, from);
+    const b = Math.min(hops, to);
+    return b > a ? (sums[b] - sums[a]) / (b - a) : 0;
+  };
+
+  const hopSeconds = ANALYSIS_HOP / sampleRate;
+  const thresholdHops = Math.max(1, Math.round(ONSET_THRESHOLD_WINDOW / hopSeconds));
+  const phraseHops = Math.max(1, Math.round(PHRASE_SILENCE / hopSeconds));
+  const riseHops = Math.max(1, Math.round(ONSET_RISE / hopSeconds));
+  const onsets: Onset[] = [];
+
+  for (let h = 1; h < hops - 1; h++) {
+    const average = mean(fluxSums, h - thresholdHops, h + thresholdHops + 1);
+    if (average <= 0 || flux[h] < average * ONSET_SENSITIVITY) continue;
+    if (flux[h] < flux[h - 1] || flux[h] <= flux[h + 1]) continue; // Local peaks only
+    if (energy[h + 1] < peakEnergy * ONSET_ENERGY_FLOOR) continue;
+    if (mean(energySums, h, h + riseHops + 1) <= mean(energySums, h - riseHops, h)) continue;
+
+    const time = (h * ANALYSIS_HOP + FFT_SIZE / 2) / sampleRate;
+    const strength = flux[h] / (average * ONSET_SENSITIVITY);
+    const last = onsets[onsets.length - 1];
+    if (last && time - last.time < ONSET_MIN_INTERVAL) {
+      if (strength > last.strength) onsets.pop(); // Keep the stronger of two close onsets
+      else continue;
+    }
+
+    const before = mean(energySums, h - phraseHops, h);
+    const after = mean(energySums, h, h + phraseHops);
+    onsets.push({ time, strength, phraseStart: h <= phraseHops || before < after * PHRASE_GATE });
+  }
+
+  return onsets;
+};
+
+// The onset nearest to a tapped stamp, or the stamp itself when none is close
+const snapToOnset = (onsets: Onset[], time: number): number => {
+  let best = time;
+  let bestDistance = Infinity;
+  for (const onset of onsets) {
+    if (onset.time < time - ONSET_SNAP_BEFORE) continue;
+    if (onset.time > time + ONSET_SNAP_AFTER) break;
+    const distance = Math.abs(onset.time - time);
+    if (distance < bestDistance) {
+      best = onset.time;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+/**
+ * Proposes start times for `count` untimed lines after `after` seconds. Onsets
+ * are ranked phrase starts first, then by strength, and picked at least half an
+ * even share of the remaining onsets' span apart so the lines spread over the
+ * rest of the song. Ranked onsets top up the picks when spacing leaves too few.
+ */
+const suggestLineTimes = (onsets: Onset[], count: number, after: number): number[] => {
+  const candidates = onsets.filter(onset => onset.time > after + ONSET_MIN_INTERVAL);
+  if (count <= 0 || candidates.length === 0) return [];
+  const ranked = [...candidates].sort((a, b) => Number(b.phraseStart) - Number(a.phraseStart) || b.strength - a.strength);
+  const spacing = (candidates[candidates.length - 1].time - candidates[0].time) / count / 2;
+
+  const picked: Onset[] = [];
+  for (const onset of ranked) {
+    if (picked.length === count) break;
+    if (picked.every(p => Math.abs(p.time - onset.time) >= spacing)) picked.push(onset);
+  }
+  for (const onset of ranked) {
+    if (picked.length === count) break;
+    if (!picked.includes(onset)) picked.push(onset);
+  }
+  return picked.map(onset => onset.time).sort((a, b) => a - b);
+};
+
+// --- UTILS: FONTS ---
+
+// Offered in the font pickers next to uploaded and installed fonts
+const SYSTEM_FONTS = ['Inter', 'Arial', 'Helvetica', 'Verdana', 'Trebuchet MS', 'Georgia', 'Times New Roman', 'Courier New', 'Impact'];
+
+// Font family names end up inside a quoted CSS string
+const sanitizeFontFamily = (name: string): string => name.replace(/["\\]/g, '').trim() || 'Custom Font';
+
+const fontString = (weight: number, size: number, family: string): string =>
+  `${weight} ${size}px "${family}", sans-serif`;
+
+// Inactive lines, subtitles and translations use one weight step below the main weight
+const getLighterWeight = (weight: number): number => Math.max(100, weight - 100);
+
+const customFontFaces = new Map<Blob, Promise<FontFace>>();
+
+/**
+ * Registers an uploaded font with the document (once per file).
+ */
+const registerCustomFont = (font: CustomFont): Promise<FontFace> => {
+  let face = customFontFaces.get(font.file);
+  if (!face) {
+    face = font.file.arrayBuffer()
+      .then(data => new FontFace(font.family, data).load())
+      .then(loaded => {
+        document.fonts.add(loaded);
+        return loaded;
+      });
+    customFontFaces.set(font.file, face);
+    face.catch(() => customFontFaces.delete(font.file));
+  }
+  return face;
+};
+
+/**
+ * Resolves once every face the renderer needs is loaded, so no frame is drawn
+ * or recorded with a fallback font.
+ */
+const ensureFontsLoaded = async (settings: AppSettings): Promise<void> => {
+  const { lyricsFont, titleFont, fontWeight, titleFontWeight } = settings;
+  await Promise.all([
+    document.fonts.load(fontString(fontWeight, 48, lyricsFont)),
+    document.fonts.load(fontString(getLighterWeight(fontWeight), 48, lyricsFont)),
+    document.fonts.load(fontString(titleFontWeight, 48, titleFont)),
+    document.fonts.load(fontString(getLighterWeight(titleFontWeight), 48, titleFont)),
+  ]);
+  await document.fonts.ready;
+};
+
+// Local Font Access API (Chromium); asks for permission
+const listInstalledFontFamilies = async (): Promise<string[] | null> => {
+  const { queryLocalFonts } = window as unknown as { queryLocalFonts?: () => Promise<{ family: string }[]> };
+  if (!queryLocalFonts) return null;
+  const fonts = await queryLocalFonts();
+  return [...new Set(fonts.map(f => f.family))].sort();
+};
+
+// --- UTILS: RENDERER ---
+
+interface RenderContext {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  image: HTMLImageElement | null;
+  slides: HTMLImageElement[]; // Slideshow background images
+  backgroundVideo: HTMLVideoElement | null; // Seeked to the frame time by the caller
+  lyrics: LyricLine[];
+  metadata: LrcMetadata;
+  currentTime: number;
+  smoothActiveIndex: number;
+  absoluteTime: number; // Timeline time in ms for animations independent of audio
+  isIntro: boolean;
+  isOutro: boolean;
+  titleOpacity: number; // 0 to 1
+  lyricsOpacity: number; // 0 to 1
+  endCardOpacity: number; // 0 to 1
+  fadeOutOpacity: number; // 0 to 1
+  instrumentalBreak: InstrumentalBreak | null;
+  audio: AudioFeatures | null; // Null during the intro or before the track is analyzed
+  settings: AppSettings;
+}
+
+// Helper to convert hex to RGB object
+function hexToRgb(hex: string) {
+  const shorthandRegex = /^#?([a-f\d])([a-f\d])([a-f\d])$/i;
+  hex = hex.replace(shorthandRegex, (m, r, g, b) => {
+    return r + r + g + g + b + b;
+  });
+
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result ? {
+    r: parseInt(result[1], 16),
+    g: parseInt(result[2], 16),
+    b: parseInt(result[3], 16)
+  } : { r: 255, g: 255, b: 255 };
+}
+
+// Color interpolation as a hex code (for values that are interpolated again later)
+function mixHexColors(color1: string, color2: string, factor: number) {
+    const c1 = hexToRgb(color1);
+    const c2 = hexToRgb(color2);
+    const f = Math.max(0, Math.min(1, factor));
+    const toHex = (a: number, b: number) => Math.round(a + (b - a) * f).toString(16).padStart(2, '0');
+    return `#${toHex(c1.r, c2.r)}${toHex(c1.g, c2.g)}${toHex(c1.b, c2.b)}`;
+}
+
+// Color interpolation
+function interpolateColor(color1: string, color2: string, factor: number) {
+    const c1 = hexToRgb(color1);
+    const c2 = hexToRgb(color2);
+    const f = Math.max(0, Math.min(1, factor));
+    const r = Math.round(c1.r + (c2.r - c1.r) * f);
+    const g = Math.round(c1.g + (c2.g - c1.g) * f);
+    const b = Math.round(c1.b + (c2.b - c1.b) * f);
+    return `rgb(${r}, ${g}, ${b})`;
+}
+
+// A wrapped row and where it starts in the original text (for the karaoke wipe)
+interface WrappedRow {
+  text: string;
+  start: number;
+}
+
+// Scripts written without spaces between words: Thai, Lao, Myanmar, Khmer, kana, CJK and full-width forms
+const noSpaceScriptReg = /[\u0E00-\u0EFF\u1000-\u109F\u1780-\u17FF\u3000-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+// Kinsoku: characters that may not start a row (closing punctuation, small kana,
+// prolonged sound mark) and that may not end one (opening brackets)
+const noLineStartReg = /^[、。，．・：；？！゛゜ヽヾゝゞ々ー’”）〕］｝〉》」』】〙〗〟｠»〜～ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶ!),.:;?\]}%]/;
+const noLineEndReg = /[‘“（〔［｛〈《「『【〘〖〝｟«(\[{]$/;
+
+// Right-to-left and left-to-right strong characters (Hebrew, Arabic, Syriac, Thaana, NKo and presentation forms)
+const rtlCharReg = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const ltrCharReg = /[A-Za-z\u00C0-\u024F\u0370-\u058F\u0900-\u1FFF\u2C00-\uFB1C]/;
+
+// Direction from the first strong character, as the Unicode bidi algorithm does for paragraphs
+const isRtlText = (text: string): boolean => {
+  for (const char of text) {
+    if (rtlCharReg.test(char)) return true;
+    if (ltrCharReg.test(char)) return false;
+  }
+  return false;
+};
+
+let wordSegmenter: Intl.Segmenter | null | undefined;
+
+// Word segments; Intl.Segmenter uses dictionaries for Thai and CJK. Falls back to characters.
+const segmentWords = (text: string): string[] => {
+  if (wordSegmenter === undefined) {
+    wordSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter(undefined, { granularity: 'word' }) : null;
+  }
+  return wordSegmenter ? Array.from(wordSegmenter.segment(text), s => s.segment) : Array.from(text);
+};
+
+// Whether a row may break between two adjacent segments
+const canBreakBetween = (before: string, after: string): boolean => {
+  if (noLineStartReg.test(after) || noLineEndReg.test(before)) return false;
+  if (/\s$/.test(before)) return true;
+  // Scripts without spaces break between words
+  return noSpaceScriptReg.test(before.slice(-1)) || noSpaceScriptReg.test(after[0]);
+};
+
+/**
+ * Wraps text into rows no wider than `maxWidth`. Latin text breaks at spaces;
+ * CJK, Thai and similar scripts break between words, following the kinsoku
+ * rules for punctuation. A single unbreakable chunk wider than the row overflows.
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): WrappedRow[] {
+  // Merge segments into chunks that cannot be broken inside
+  const chunks: { text: string; start: number }[] = [];
+  let offset = 0;
+  for (const segment of segmentWords(text)) {
+    const last = chunks[chunks.length - 1];
+    if (last && (/^\s+$/.test(segment) || !canBreakBetween(last.text, segment))) {
+      last.text += segment;
+    } else {
+      chunks.push({ text: segment, start: offset });
+    }
+    offset += segment.length;
+  }
+  if (!chunks.length) return [{ text: '', start: 0 }];
+
+  const rows: WrappedRow[] = [];
+  let current = { ...chunks[0] };
+  for (let i = 1; i < chunks.length; i++) {
+    const candidate = current.text + chunks[i].text;
+    if (ctx.measureText(candidate.trimEnd()).width <= maxWidth) {
+      current.text = candidate;
+    } else {
+      rows.push({ text: current.text.trimEnd(), start: current.start });
+      current = { ...chunks[i] };
+    }
+  }
+  rows.push({ text: current.text.trimEnd(), start: current.start });
+  return rows;
+}
+
+// Row texts only
+function getWrappedLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  return wrapText(ctx, text, maxWidth).map(row => row.text);
+}
+
+/**
+ * Draws one wrapped row of a word-timed line as a karaoke wipe: the row is
+ * painted in the inactive color, then the sung part is painted over it in the
+ * active color (with glow) using a clip rectangle.
+ */
+function drawKaraokeText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  sungChars: number, // Sung characters within this row (may be fractional)
+  fontSize: number,
+  glow: number,
+  settings: AppSettings
+) {
+  ctx.save();
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = settings.secondaryColor;
+  ctx.fillText(text, x, y);
+  ctx.restore();
+
+  const sung = Math.max(0, Math.min(text.length, sungChars));
+  if (sung <= 0) return;
+
+  // The wipe runs from the start edge of the row (the right edge for RTL text)
+  const rowWidth = ctx.measureText(text).width;
+  const left = ctx.textAlign === 'center' ? x - rowWidth / 2 : ctx.textAlign === 'right' ? x - rowWidth : x;
+  const rtl = ctx.direction === 'rtl';
+
+  const whole = Math.floor(sung);
+  let fillWidth = ctx.measureText(text.slice(0, whole)).width;
+  if (whole < text.length) {
+    fillWidth += ctx.measureText(text[whole]).width * (sung - whole);
+  }
+
+  ctx.save();
+  ctx.beginPath();
+  if (rtl) {
+    ctx.rect(left + rowWidth - fillWidth, y - fontSize, fillWidth + fontSize, fontSize * 2);
+  } else {
+    ctx.rect(left - fontSize, y - fontSize, fillWidth + fontSize, fontSize * 2);
+  }
+  ctx.clip();
+  ctx.fillStyle = settings.primaryColor;
+  ctx.shadowColor = settings.primaryColor;
+  ctx.shadowBlur = glow;
+  ctx.fillText(text, x, y);
+  ctx.restore();
+}
+
+/**
+ * Draws a rounded rectangle image
+ */
+function drawRoundedImage(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+  borderWidth: number = 4
+) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, radius);
+  ctx.closePath();
+  ctx.clip();
+  
+  // Draw image covering the area
+  const imgRatio = img.width / img.height;
+  const areaRatio = width / height;
+  
+  let drawWidth, drawHeight, offsetX, offsetY;
+  
+  if (imgRatio > areaRatio) {
+    drawHeight = height;
+    drawWidth = height * imgRatio;
+    offsetX = x - (drawWidth - width) / 2;
+    offsetY = y;
+  } else {
+    drawWidth = width;
+    drawHeight = width / imgRatio;
+    offsetX = x;
+    offsetY = y - (drawHeight - height) / 2;
+  }
+
+  ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
+  ctx.restore();
+  
+  // Border
+  ctx.save();
+  ctx.beginPath();
+  ctx.lineWidth = borderWidth;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.roundRect(x, y, width, height, radius);
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Procedurally draws floating bokeh spots
+ */
+function drawBokeh(ctx: CanvasRenderingContext2D, width: number, height: number, time: number, settings: AppSettings, pulse = 0) {
+    ctx.save();
+    // Use 'screen' or 'lighter' for that dreamy light-addition effect
+    ctx.globalCompositeOperation = 'screen';
+    
+    // Number of particles
+    const particleCount = 15;
+    const unit = Math.min(width, height) / 1080; // Sizes below are for a 1080p frame
+    
+    for (let i = 0; i < particleCount; i++) {
+        // Deterministic randomness based on index
+        const randomBase = (i * 1337) % 1000; 
+        
+        // Speed variation
+        const speed = 0.0002 + (randomBase % 100) * 0.00001;
+        
+        // Movement logic: Sine waves for smooth floating
+        const t = time * speed + randomBase;
+        
+        // Position: Bias towards edges
+        const side = i % 2 === 0 ? -1 : 1; // Left or Right bias
+        const xBase = width / 2 + (width / 2.5) * side; 
+        const xOffset = Math.sin(t) * (width * 0.2);
+        const x = xBase + xOffset;
+        
+        const yBase = height * (0.2 + ((randomBase % 10) / 10) * 0.8); // Spread vertically
+        const yOffset = Math.cos(t * 1.3) * (height * 0.15);
+        const y = yBase + yOffset;
+
+        // Size
+        let radius = 100 * unit;
+        if (settings.bokehAutoSize) {
+            // Oscillate size
+            radius = (150 + Math.sin(t * 2) * 80 + (randomBase % 100)) * unit;
+        } else {
+            // Fixed base size + slight oscillation
+            const baseSize = 50 + (settings.bokehScale * 4); // Map 0-100 to 50-450
+            radius = (baseSize + Math.sin(t * 3) * 20) * unit;
+        }
+
+        // Beats swell the spots
+        radius *= 1 + pulse * 0.3;
+
+        // Color
+        if (settings.bokehAutoColor) {
+            // Placeholder logic for gradient creation below
+        }
+
+        // Create Gradient for soft spot
+        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+        
+        // Alpha calculation: Pulse in and out
+        const alphaBase = 0.15;
+        const alpha = alphaBase + Math.sin(t * 1.7) * 0.05 + pulse * 0.1;
+
+        if (settings.bokehAutoColor) {
+            const hue = (t * 50 + randomBase) % 360;
+            gradient.addColorStop(0, `hsla(${hue}, 80%, 60%, ${alpha})`);
+            gradient.addColorStop(1, `hsla(${hue}, 80%, 60%, 0)`);
+        } else {
+            const { r, g, b } = hexToRgb(settings.bokehColor);
+            gradient.addColorStop(0, `rgba(${r}, ${g}, ${b}, ${alpha})`);
+            gradient.addColorStop(1, `rgba(${r}, ${g}, ${b}, 0)`);
+        }
+
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+    }
+    
+    ctx.restore();
+}
+
+/**
+ * Where the cover art and lyrics go for an output size and template. The split
+ * template keeps art left / lyrics right on wide frames and stacks the art above
+ * a centered lyrics column on portrait and square frames. All values are in
+ * output pixels.
+ */
+interface FrameLayout {
+  unit: number;          // Pixel scale relative to a 1080p frame (short side 1080px)
+  stacked: boolean;
+  art: { x: number; y: number; size: number } | null; // Null when the cover is only a background
+  coverBackground: boolean; // Draw the cover full-frame behind everything
+  lyricsX: number;       // Text anchor of the lyrics column
+  lyricsAlign: CanvasTextAlign;
+  lyricsWidth: number;   // Max width before wrapping
+  lyricsTop: number;     // Lines fade out towards the edges of this band
+  lyricsBottom: number;
+  verticalCenter: number; // Y of the active line (and the intro title)
+}
+
+// Frames narrower than this (width / height) use the stacked layout
+const STACKED_ASPECT_THRESHOLD = 1.2;
+
+const getFrameLayout = (width: number, height: number, settings: AppSettings): FrameLayout => {
+  const unit = Math.min(width, height) / 1080;
+  const stacked = width / height < STACKED_ASPECT_THRESHOLD;
+
+  if (settings.template !== 'split') {
+    // Full-frame templates: lyrics centered, cover behind for focus and karaoke
+    return {
+      unit,
+      stacked,
+      art: null,
+      coverBackground: settings.template !== 'subtitle',
+      lyricsX: width / 2,
+      lyricsAlign: 'center',
+      lyricsWidth: width * (stacked ? 0.88 : 0.8),
+      lyricsTop: 0,
+      lyricsBottom: height,
+      verticalCenter: height / 2,
+    };
+  }
+
+  if (!stacked) {
+    const leftPanelWidth = width * 0.4;
+    const size = Math.min(leftPanelWidth * 0.75, height * 0.55);
+    const lyricsX = width * (settings.lyricsXOffset / 100); // Adjustable X
+    return {
+      unit,
+      stacked,
+      art: { x: (leftPanelWidth - size) / 2 + 60 * unit, y: (height - size) / 2, size },
+      coverBackground: false,
+      lyricsX,
+      lyricsAlign: 'left',
+      lyricsWidth: width - lyricsX - 50 * unit, // Remaining width minus padding
+      lyricsTop: 0,
+      lyricsBottom: height,
+      verticalCenter: height / 2,
+    };
+  }
+
+  const margin = height * 0.07;
+  const size = Math.min(width * 0.62, height * 0.4);
+  const lyricsTop = margin + size + margin * 0.5;
+  const lyricsBottom = height - margin * 0.5;
+  return {
+    unit,
+    stacked,
+    art: { x: (width - size) / 2, y: margin, size },
+    coverBackground: false,
+    lyricsX: width / 2,
+    lyricsAlign: 'center',
+    lyricsWidth: width * 0.88,
+    lyricsTop,
+    lyricsBottom,
+    verticalCenter: (lyricsTop + lyricsBottom) / 2,
+  };
+};
+
+/**
+ * Settings with the active color swapped for the singer's color (and the
+ * inactive color tinted towards it) on duet lines. Unmarked lines get the
+ * settings unchanged.
+ */
+const getLineSettings = (line: LyricLine, settings: AppSettings): AppSettings => {
+  if (!line.singer) return settings;
+  const singerColor = line.singer === 'v1' ? settings.singer1Color
+    : line.singer === 'v2' ? settings.singer2Color
+    : settings.bothSingersColor;
+  return {
+    ...settings,
+    primaryColor: singerColor,
+    secondaryColor: mixHexColors(settings.secondaryColor, singerColor, 0.35),
+  };
+};
+
+// Lines with an explicit end (subtitle imports) fade back to inactive after it
+const getEndFade = (line: LyricLine, currentTime: number): number =>
+  line.endTime !== undefined ? Math.max(0, Math.min(1, (currentTime - line.endTime) / 0.3)) : 0;
+
+// Whether line `i` is word-timed and currently being sung
+const isLineSinging = (lyrics: LyricLine[], i: number, currentTime: number): boolean => {
+  const line = lyrics[i];
+  return !!line.words && currentTime >= line.time && getEndFade(line, currentTime) === 0 &&
+      (i === lyrics.length - 1 || currentTime < lyrics[i + 1].time);
+};
+
+// Text as drawn, after the case transform. Characters whose uppercase is longer
+// (ß becomes SS) stay as they are, so sung character counts and word offsets still line up.
+const getDisplayText = (text: string, settings: AppSettings): string => {
+  if (!settings.uppercase) return text;
+  return Array.from(text, char => {
+    const upper = char.toLocaleUpperCase();
+    return upper.length === char.length ? upper : char;
+  }).join('');
+};
+
+/**
+ * Sets the font, letter spacing and outline stroke for lyric or title text.
+ */
+function setTextStyle(
+  ctx: CanvasRenderingContext2D,
+  role: 'lyrics' | 'title',
+  weight: number,
+  fontSize: number,
+  settings: AppSettings,
+  unit: number
+) {
+  ctx.font = fontString(weight, fontSize, role === 'title' ? settings.titleFont : settings.lyricsFont);
+  ctx.letterSpacing = `${settings.letterSpacing * unit}px`;
+  // The stroke is centered on the glyph edge and half hidden under the fill
+  ctx.lineWidth = settings.textOutline * unit * 2;
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = settings.outlineColor;
+}
+
+/**
+ * Draws a row one word at a time so each word can be lifted on its own
+ * (bounce transition). `lift` gets the character index of the word in the line.
+ */
+function drawLiftedRow(
+  ctx: CanvasRenderingContext2D,
+  row: WrappedRow,
+  x: number,
+  y: number,
+  fontSize: number,
+  sungChars: number | null,
+  glow: number,
+  settings: AppSettings,
+  lift: (charIndex: number) => number
+) {
+  const rowWidth = ctx.measureText(row.text).width;
+  const left = ctx.textAlign === 'center' ? x - rowWidth / 2 : ctx.textAlign === 'right' ? x - rowWidth : x;
+  const rtl = ctx.direction === 'rtl';
+
+  ctx.save();
+  ctx.textAlign = 'left';
+  let index = 0;
+  for (const word of segmentWords(row.text)) {
+    const wordIndex = index;
+    index += word.length;
+    if (!word.trim()) continue;
+
+    const before = ctx.measureText(row.text.slice(0, wordIndex)).width;
+    const width = ctx.measureText(word).width;
+    const wordX = rtl ? left + rowWidth - before - width : left + before;
+    const wordY = y - lift(row.start + wordIndex);
+    if (settings.textOutline > 0) ctx.strokeText(word, wordX, wordY);
+    if (sungChars !== null) {
+      drawKaraokeText(ctx, word, wordX, wordY, sungChars - row.start - wordIndex, fontSize, glow, settings);
+    } else {
+      ctx.fillText(word, wordX, wordY);
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * Draws a lyric line wrapped to `maxWidth` and centered vertically on (x, y)
+ * with the current font, fill and alignment. When `sungChars` is given the
+ * rows get the karaoke wipe instead of a plain fill; `lift` moves words
+ * individually.
+ */
+function drawLyricText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  fontSize: number,
+  sungChars: number | null,
+  glow: number,
+  settings: AppSettings,
+  lift?: (charIndex: number) => number
+) {
+  ctx.direction = isRtlText(text) ? 'rtl' : 'ltr';
+  const wrappedLines = wrapText(ctx, text, maxWidth);
+
+  // Draw lines centered vertically around the logical Y line position
+  const totalHeight = (wrappedLines.length - 1) * (fontSize * 1.1);
+  const startY = y - totalHeight / 2;
+
+  wrappedLines.forEach(({ text: txt, start }, lineIdx) => {
+      const lineY = startY + (lineIdx * (fontSize * 1.1));
+      if (lift) {
+          drawLiftedRow(ctx, { text: txt, start }, x, lineY, fontSize, sungChars, glow, settings, lift);
+          return;
+      }
+      if (settings.textOutline > 0) ctx.strokeText(txt, x, lineY);
+      if (sungChars !== null) {
+          // Each row continues the wipe from where it starts in the line
+          drawKaraokeText(ctx, txt, x, lineY, sungChars - start, fontSize, glow, settings);
+      } else {
+          ctx.fillText(txt, x, lineY);
+      }
+  });
+
+  return wrappedLines.length;
+}
+
+// Extra height the translation rows add under a line (one row per translation)
+const getTranslationHeight = (line: LyricLine, translationSize: number, settings: AppSettings): number =>
+  settings.showTranslations && line.translations?.length ? line.translations.length * translationSize * 1.25 : 0;
+
+/**
+ * Draws a lyric line with its translation rows underneath, the whole block
+ * centered vertically on (x, y). Translations use their own size and color
+ * and never glow.
+ */
+function drawLyricBlock(
+  ctx: CanvasRenderingContext2D,
+  line: LyricLine,
+  x: number,
+  y: number,
+  maxWidth: number,
+  fontSize: number,
+  sungChars: number | null,
+  glow: number,
+  settings: AppSettings,
+  lift?: (charIndex: number) => number
+) {
+  const translationSize = fontSize * settings.translationScale / 100;
+  const translationHeight = getTranslationHeight(line, translationSize, settings);
+  const mainY = y - translationHeight / 2;
+  const rows = drawLyricText(ctx, getDisplayText(line.text, settings), x, mainY, maxWidth, fontSize, sungChars, glow, settings, lift);
+
+  if (translationHeight === 0 || !line.translations) return;
+
+  ctx.save();
+  ctx.shadowBlur = 0;
+  ctx.font = fontString(getLighterWeight(settings.fontWeight), translationSize, settings.lyricsFont);
+  ctx.fillStyle = settings.translationColor;
+  let rowY = mainY + (rows - 1) * fontSize * 0.55 + fontSize * 0.5 + translationSize * 0.75;
+  for (const text of line.translations) {
+    // Long translations are shrunk to fit rather than wrapped
+    ctx.direction = isRtlText(text) ? 'rtl' : 'ltr';
+    ctx.fillText(text, x, rowY, maxWidth);
+    rowY += translationSize * 1.25;
+  }
+  ctx.restore();
+}
+
+// Seconds per Ken Burns zoom cycle; the pans use other periods so the motion never visibly repeats
+const KEN_BURNS_ZOOM_PERIOD = 40;
+const KEN_BURNS_PAN_PERIODS = [53, 47];
+
+/**
+ * Draws a background source scaled to cover the frame, with room for the blur
+ * at the edges. `zoom` and the shifts (fractions of the frame) move it around.
+ */
+function drawBackgroundSource(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  blur: number,
+  zoom = 1,
+  shiftX = 0,
+  shiftY = 0
+) {
+  const scale = Math.max((width + blur * 4) / sourceWidth, (height + blur * 4) / sourceHeight) * zoom;
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2 + shiftX * width, (height - drawHeight) / 2 + shiftY * height, drawWidth, drawHeight);
+}
+
+/**
+ * Background layer over the gradient: the cover (still or with a slow Ken Burns
+ * pan and zoom), the slideshow or the video loop, softened by the background
+ * blur, dim and saturation. Falls back to the cover while the selected media is
+ * missing. Full-frame templates add a vignette so lyrics stay readable.
+ */
+function drawBackground(rc: RenderContext, layout: FrameLayout) {
+  const { ctx, width, height, image, slides, backgroundVideo, lyrics, currentTime, absoluteTime, settings } = rc;
+  const blur = settings.backgroundBlur * layout.unit;
+  const opacity = 1 - settings.backgroundDim / 100;
+
+  ctx.save();
+  ctx.filter = `${blur > 0 ? `blur(${blur}px) ` : ''}saturate(${settings.backgroundSaturation}%)`;
+  ctx.globalAlpha = opacity;
+
+  let drawn = true;
+  if (settings.backgroundSource === 'video' && backgroundVideo && backgroundVideo.readyState >= 2) {
+      drawBackgroundSource(ctx, backgroundVideo, backgroundVideo.videoWidth, backgroundVideo.videoHeight, width, height, blur);
+  } else if (settings.backgroundSource === 'slideshow' && slides.length > 0) {
+      const { current, previous, fade } = getSlideState(lyrics, currentTime, slides.length, settings.breakThreshold);
+      if (fade < 1) {
+          drawBackgroundSource(ctx, slides[previous], slides[previous].width, slides[previous].height, width, height, blur);
+      }
+      ctx.globalAlpha = opacity * fade;
+      drawBackgroundSource(ctx, slides[current], slides[current].width, slides[current].height, width, height, blur);
+  } else if (image && settings.backgroundSource === 'kenBurns') {
+      const t = absoluteTime / 1000;
+      const zoom = 1.2 + 0.1 * Math.sin((t / KEN_BURNS_ZOOM_PERIOD) * Math.PI * 2);
+      const shiftX = 0.04 * Math.sin((t / KEN_BURNS_PAN_PERIODS[0]) * Math.PI * 2);
+      const shiftY = 0.04 * Math.cos((t / KEN_BURNS_PAN_PERIODS[1]) * Math.PI * 2);
+      drawBackgroundSource(ctx, image, image.width, image.height, width, height, blur, zoom, shiftX, shiftY);
+  } else if (image) {
+      drawBackgroundSource(ctx, image, image.width, image.height, width, height, blur);
+  } else {
+      drawn = false;
+  }
+  ctx.restore();
+
+  // Vignette towards the edges
+  if (drawn && layout.coverBackground) {
+      const vignette = ctx.createRadialGradient(width / 2, height / 2, Math.min(width, height) * 0.2, width / 2, height / 2, Math.max(width, height) * 0.75);
+      vignette.addColorStop(0, 'rgba(2, 6, 23, 0.25)');
+      vignette.addColorStop(1, 'rgba(2, 6, 23, 0.85)');
+      ctx.fillStyle = vignette;
+      ctx.fillRect(0, 0, width, height);
+  }
+}
+
+// Distance between lines of the lyric list
+const getListLineHeight = (lyrics: LyricLine[], baseFontSize: number, settings: AppSettings): number => {
+  const translationSize = baseFontSize * settings.translationScale / 100;
+  // Make room for the largest translation block so spacing stays uniform
+  const maxTranslationHeight = lyrics.reduce((max, l) => Math.max(max, getTranslationHeight(l, translationSize, settings)), 0);
+  return baseFontSize * 2.2 + maxTranslationHeight;
+};
+
+// Seconds of the countdown before the next line, one dot per second
+const BREAK_COUNTDOWN = 3;
+
+// Seconds for the break indicator to fade in and out
+const BREAK_FADE = 0.4;
+
+/**
+ * Instrumental break indicator centered vertically on `y`: a pulsing note, a bar
+ * filling up until the next line, or dots going out one per second in the
+ * last seconds of the break.
+ */
+function drawBreakIndicator(
+  rc: RenderContext,
+  x: number,
+  y: number,
+  align: CanvasTextAlign,
+  size: number,
+  unit: number
+) {
+  const { ctx, instrumentalBreak, lyricsOpacity, settings } = rc;
+  if (!instrumentalBreak) return;
+  const { start, end, elapsed, remaining } = instrumentalBreak;
+
+  const fade = Math.min(1, elapsed / BREAK_FADE);
+  const alpha = lyricsOpacity * (settings.breakIndicator === 'dots' ? fade : Math.min(fade, remaining / BREAK_FADE));
+  if (alpha <= 0.01) return;
+
+  // Left edge of an indicator `width` wide, anchored like text
+  const leftOf = (width: number) => align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.fillStyle = settings.primaryColor;
+  ctx.shadowColor = settings.primaryColor;
+  ctx.shadowBlur = settings.glowIntensity * unit;
+
+  switch (settings.breakIndicator) {
+    case 'note': {
+      const pulse = 1 + 0.08 * Math.sin(elapsed * Math.PI * 2);
+      ctx.font = fontString(400, size * pulse, settings.lyricsFont);
+      ctx.textAlign = align;
+      ctx.textBaseline = 'middle';
+      ctx.fillText('\u266A', x, y);
+      break;
+    }
+    case 'bar': {
+      const width = Math.min(size * 6, 480 * unit);
+      const height = Math.max(2, size * 0.12);
+      const left = leftOf(width);
+      const progress = Math.max(0, Math.min(1, elapsed / (end - start)));
+      ctx.save();
+      ctx.globalAlpha = alpha * 0.3;
+      ctx.fillStyle = settings.secondaryColor;
+      ctx.shadowBlur = 0;
+      ctx.beginPath();
+      ctx.roundRect(left, y - height / 2, width, height, height / 2);
+      ctx.fill();
+      ctx.restore();
+      ctx.beginPath();
+      ctx.roundRect(left, y - height / 2, Math.max(height, width * progress), height, height / 2);
+      ctx.fill();
+      break;
+    }
+    case 'dots': {
+      // Dimmed until the countdown, then the last dot goes out first
+      const radius = size * 0.14;
+      const gap = size * 0.5;
+      const left = leftOf(gap * (BREAK_COUNTDOWN - 1) + radius * 2) + radius;
+      const lit = remaining > BREAK_COUNTDOWN ? BREAK_COUNTDOWN : Math.ceil(remaining);
+      for (let i = 0; i < BREAK_COUNTDOWN; i++) {
+        const on = remaining <= BREAK_COUNTDOWN && i < lit;
+        ctx.globalAlpha = alpha * (on ? 1 : remaining > BREAK_COUNTDOWN ? 0.35 : 0.1);
+        ctx.shadowBlur = on ? settings.glowIntensity * unit : 0;
+        ctx.beginPath();
+        ctx.arc(left + i * gap, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      break;
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * Split and focus templates: the lyric list centered on the active line. It
+ * scrolls between lines, or crossfades in place for the fade transition. Break
+ * indicators sit halfway between the last line and the next one.
+ */
+function drawScrollingLyrics(rc: RenderContext, layout: FrameLayout) {
+  const { lyrics, currentTime, smoothActiveIndex, instrumentalBreak, settings } = rc;
+  if (instrumentalBreak) {
+    const baseFontSize = settings.fontSize * layout.unit;
+    const lineHeight = getListLineHeight(lyrics, baseFontSize, settings);
+    const y = layout.verticalCenter + (instrumentalBreak.nextIndex - 0.5 - smoothActiveIndex) * lineHeight;
+    drawBreakIndicator(rc, layout.lyricsX, y, layout.lyricsAlign, baseFontSize, layout.unit);
+  }
+
+  if (settings.transition !== 'fade') {
+    drawLyricList(rc, layout, smoothActiveIndex, 1);
+    return;
+  }
+
+  // Fade in place: the list for the previous line crossfades into the list for the new one
+  const activeIndex = getActiveIndex(lyrics, currentTime);
+  const started = lyrics.length > 0 && currentTime >= lyrics[activeIndex].time;
+  const progress = started ? getTransitionProgress(lyrics[activeIndex].time, currentTime, settings) : 1;
+  if (progress < 1 && activeIndex > 0) {
+    drawLyricList(rc, layout, activeIndex - 1, 1 - Math.min(1, progress));
+  }
+  drawLyricList(rc, layout, activeIndex, Math.min(1, progress));
+}
+
+// Share of the font size a word hops in the bounce transition
+const BOUNCE_HEIGHT = 0.3;
+
+/**
+ * Draws the lyric list with `anchorIndex` (fractional while scrolling) at the
+ * vertical center. The active line gets the entry animation of the selected
+ * transition; `layerAlpha` fades the whole list for crossfades.
+ */
+function drawLyricList(rc: RenderContext, layout: FrameLayout, anchorIndex: number, layerAlpha: number) {
+  const { ctx, lyrics, currentTime, lyricsOpacity, settings } = rc;
+  const { unit } = layout;
+
+  ctx.textAlign = layout.lyricsAlign;
+  ctx.textBaseline = 'middle';
+  
+  const baseFontSize = settings.fontSize * unit;
+  const lineHeight = getListLineHeight(lyrics, baseFontSize, settings);
+  // One extra line on each side fades out at the edge of the visible range
+  const maxVisibleDist = settings.visibleLines + 1;
+
+  const startIndex = Math.max(0, Math.floor(anchorIndex - maxVisibleDist));
+  const endIndex = Math.min(lyrics.length - 1, Math.ceil(anchorIndex + maxVisibleDist));
+
+  // Entry animation progress of the line that became active most recently
+  const activeIndex = getActiveIndex(lyrics, currentTime);
+  const entering = lyrics.length > 0 && currentTime >= lyrics[activeIndex].time;
+  const enterProgress = entering ? getTransitionProgress(lyrics[activeIndex].time, currentTime, settings) : 1;
+
+  for (let i = startIndex; i <= endIndex; i++) {
+    let line = lyrics[i];
+    const lineSettings = getLineSettings(line, settings);
+    const distance = i - anchorIndex; 
+    const endFade = getEndFade(line, currentTime);
+    const yPos = layout.verticalCenter + (distance * lineHeight);
+    const absDist = Math.abs(distance);
+    
+    // Scale Logic - Cosine easing for smoother center transition
+    let scale = 1.0;
+    if (absDist < 1.0) {
+        // Cosine-based ease (smooth bell curve shape) to avoid sharp "point" at 0
+        const ease = (1 + Math.cos(Math.PI * absDist)) / 2; // Goes from 1.0 (at 0) to 0.0 (at 1)
+        scale = 1.0 + 0.15 * ease;
+    }
+
+    // Color & Alpha Logic
+    let color = lineSettings.secondaryColor;
+    let alpha = 1.0;
+    let blur = 0;
+
+    if (absDist < 0.6) {
+        const factor = Math.max(absDist * 1.66, endFade); // Normalize 0.6 to 1.0
+        color = interpolateColor(lineSettings.primaryColor, lineSettings.secondaryColor, factor);
+    }
+    
+    if (absDist > 2) {
+        alpha = Math.max(0, 1 - (absDist - 2) * settings.neighborFade / 100);
+    }
+    alpha *= Math.max(0, Math.min(1, maxVisibleDist - absDist));
+    
+    if (absDist > 1.2) {
+        blur = (absDist - 1.2) * (settings.neighborBlur / 25) * unit;
+    }
+
+    // Right-to-left lines start at the right edge of a left-aligned column.
+    // Duet alignment: second singer on the far side, both singers in the middle
+    const rtl = isRtlText(line.text);
+    const left = layout.lyricsAlign === 'center' ? layout.lyricsX - layout.lyricsWidth / 2 : layout.lyricsX;
+    let anchorX = layout.lyricsX;
+    let align = layout.lyricsAlign;
+    if (line.singer && settings.duetAlignment) {
+        const onLeft = (line.singer === 'v1') !== rtl;
+        if (line.singer === 'both') {
+            anchorX = left + layout.lyricsWidth / 2;
+            align = 'center';
+        } else {
+            anchorX = onLeft ? left : left + layout.lyricsWidth;
+            align = onLeft ? 'left' : 'right';
+        }
+    } else if (rtl && layout.lyricsAlign === 'left') {
+        anchorX = left + layout.lyricsWidth;
+        align = 'right';
+    }
+
+    // Entry animation of the active line
+    let lift: ((charIndex: number) => number) | undefined;
+    if (i === activeIndex && entering) {
+        switch (settings.transition) {
+          case 'slide':
+            // From the side the text is anchored away from
+            anchorX += (align === 'right' ? -1 : 1) * layout.lyricsWidth * 0.25 * (1 - enterProgress);
+            alpha *= Math.min(1, enterProgress);
+            break;
+          case 'zoom':
+            scale *= 0.6 + 0.4 * enterProgress;
+            alpha *= Math.min(1, enterProgress);
+            break;
+          case 'typewriter': {
+            const shown = Math.floor(line.text.length * Math.min(1, enterProgress));
+            line = { ...line, text: line.text.slice(0, shown) };
+            break;
+          }
+          case 'bounce': {
+            // Words hop when they are sung, or one after another for untimed lines
+            const { words, time, text } = line;
+            let total = 0;
+            const wordEnds = words?.map(w => (total += w.text.length)) ?? [];
+            lift = (charIndex) => {
+              const k = wordEnds.findIndex(end => charIndex < end);
+              const start = words && k >= 0 ? words[k].time : time + (charIndex / Math.max(1, text.length)) * settings.transitionDuration;
+              const progress = getTransitionProgress(start, currentTime, settings);
+              return currentTime < start || progress >= 1 ? 0 : Math.sin(Math.PI * progress) * baseFontSize * BOUNCE_HEIGHT;
+            };
+            break;
+          }
+        }
+    }
+
+    // Fade out lines leaving the lyrics band (stacked layouts)
+    const edgeFade = Math.min(1, (yPos - layout.lyricsTop) / lineHeight, (layout.lyricsBottom - yPos) / lineHeight);
+    alpha = alpha * Math.max(0, edgeFade);
+
+    // Apply Global Fade In for Lyrics
+    alpha = alpha * lyricsOpacity * layerAlpha;
+
+    if (alpha <= 0.01) continue;
+
+    ctx.save();
+    ctx.translate(anchorX, yPos);
+    ctx.scale(scale, scale);
+    ctx.textAlign = align;
+    
+    if (blur > 0) ctx.filter = `blur(${blur}px)`;
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = color;
+    
+    const fontWeight = absDist < 0.4 ? settings.fontWeight : getLighterWeight(settings.fontWeight);
+    setTextStyle(ctx, 'lyrics', fontWeight, baseFontSize, settings, unit);
+
+    // Glow
+    if (absDist < 0.4) {
+        ctx.shadowColor = lineSettings.primaryColor;
+        ctx.shadowBlur = settings.glowIntensity * unit * (1 - absDist/0.4) * (1 - endFade);
+    }
+
+    // Karaoke wipe for the word-timed line being sung
+    const sungChars = isLineSinging(lyrics, i, currentTime) ? getSungCharCount(lyrics[i], currentTime) : null;
+    drawLyricBlock(ctx, line, 0, 0, layout.lyricsWidth / scale, baseFontSize, sungChars, settings.glowIntensity * unit, lineSettings, lift);
+
+    ctx.restore();
+  }
+}
+
+/**
+ * Karaoke template: two rows at the bottom. Lines alternate between the top and
+ * bottom row; the row that is not being sung already shows the next line.
+ */
+function drawTwoLineLyrics(rc: RenderContext, layout: FrameLayout) {
+  const { ctx, width, height, lyrics, currentTime, lyricsOpacity, settings } = rc;
+  const { unit } = layout;
+  if (lyrics.length === 0) return;
+
+  const baseFontSize = settings.fontSize * unit * 1.1;
+  const activeIndex = getActiveIndex(lyrics, currentTime);
+  const started = currentTime >= lyrics[0].time;
+  const translationSize = baseFontSize * settings.translationScale / 100;
+  const hasTranslations = lyrics.some(l => getTranslationHeight(l, translationSize, settings) > 0);
+  const rowY = hasTranslations ? [height * 0.68, height * 0.84] : [height * 0.74, height * 0.86];
+  const margin = width * 0.08;
+  const rowWidth = width - margin * 2;
+
+  // Before the first line both rows preview lines 0 and 1
+  const shown = started ? [activeIndex, activeIndex + 1] : [0, 1];
+
+  // Break indicator above the top row, on the side of the row the next line is in
+  if (rc.instrumentalBreak) {
+    const nextRow = rc.instrumentalBreak.nextIndex % 2;
+    const x = layout.stacked ? width / 2 : nextRow === 0 ? margin : width - margin;
+    const align = layout.stacked ? 'center' : nextRow === 0 ? 'left' : 'right';
+    drawBreakIndicator(rc, x, rowY[0] - baseFontSize * 1.4, align, baseFontSize, unit);
+  }
+
+  ctx.textBaseline = 'middle';
+
+  for (const index of shown) {
+    if (index >= lyrics.length) continue;
+    const line = lyrics[index];
+    const row = index % 2;
+    const isActive = started && index === activeIndex;
+
+    // Top row sits left, bottom row sits right (centered in portrait)
+    if (layout.stacked) {
+      ctx.textAlign = 'center';
+    } else {
+      ctx.textAlign = row === 0 ? 'left' : 'right';
+    }
+    const x = layout.stacked ? width / 2 : row === 0 ? margin : width - margin;
+
+    // The upcoming line fades in when its row frees up
+    const changeTime = started && index > 0 ? lyrics[Math.max(0, index - 1)].time : 0;
+    const appear = isActive ? 1 : Math.min(1, Math.max(0, (currentTime - changeTime) / 0.3));
+    const endFade = isActive ? getEndFade(line, currentTime) : 0;
+
+    ctx.save();
+    ctx.globalAlpha = lyricsOpacity * appear;
+    setTextStyle(ctx, 'lyrics', settings.fontWeight, baseFontSize, settings, unit);
+
+    // Dark outline keeps the rows readable over the cover (unless a custom outline is set)
+    if (settings.textOutline === 0) {
+      ctx.lineWidth = 6 * unit;
+      ctx.strokeStyle = 'rgba(2, 6, 23, 0.6)';
+      const mainY = rowY[row] - getTranslationHeight(line, translationSize, settings) / 2;
+      ctx.direction = isRtlText(line.text) ? 'rtl' : 'ltr';
+      getWrappedLines(ctx, getDisplayText(line.text, settings), rowWidth).forEach((txt, idx, all) => {
+        ctx.strokeText(txt, x, mainY + (idx - (all.length - 1) / 2) * baseFontSize * 1.1);
+      });
+    }
+
+    const lineSettings = getLineSettings(line, settings);
+    const sungChars = isActive && isLineSinging(lyrics, index, currentTime) ? getSungCharCount(line, currentTime) : null;
+    ctx.fillStyle = isActive ? interpolateColor(lineSettings.primaryColor, lineSettings.secondaryColor, endFade) : lineSettings.secondaryColor;
+    if (isActive && sungChars === null) {
+      ctx.shadowColor = lineSettings.primaryColor;
+      ctx.shadowBlur = settings.glowIntensity * unit * (1 - endFade);
+    }
+    drawLyricBlock(ctx, line, x, rowY[row], rowWidth, baseFontSize, sungChars, settings.glowIntensity * unit, lineSettings);
+    ctx.restore();
+  }
+}
+
+/**
+ * Subtitle template: only the current line, in the lower third, crossfading
+ * with the previous one.
+ */
+function drawSubtitleLyrics(rc: RenderContext, layout: FrameLayout) {
+  const { ctx, width, height, lyrics, currentTime, lyricsOpacity, settings } = rc;
+  const { unit } = layout;
+  const baseFontSize = settings.fontSize * unit;
+  const y = height * 0.84;
+
+  // Break indicator above the subtitle box
+  drawBreakIndicator(rc, width / 2, y - baseFontSize * 1.8, 'center', baseFontSize, unit);
+  if (lyrics.length === 0 || currentTime < lyrics[0].time) return;
+
+  const activeIndex = getActiveIndex(lyrics, currentTime);
+  const maxWidth = width * 0.84;
+  const FADE = 0.25; // Seconds
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  setTextStyle(ctx, 'lyrics', settings.fontWeight, baseFontSize, settings, unit);
+
+  const sinceChange = currentTime - lyrics[activeIndex].time;
+  const entries = [{ index: activeIndex, alpha: Math.min(1, sinceChange / FADE) }];
+  if (activeIndex > 0 && sinceChange < FADE) {
+    entries.unshift({ index: activeIndex - 1, alpha: 1 - sinceChange / FADE });
+  }
+
+  for (const { index, alpha } of entries) {
+    const line = lyrics[index];
+    // Subtitle cues with an end time disappear after it
+    const visible = alpha * (1 - getEndFade(line, currentTime)) * lyricsOpacity;
+    if (visible <= 0.01) continue;
+
+    const rows = getWrappedLines(ctx, getDisplayText(line.text, settings), maxWidth);
+    const translationHeight = getTranslationHeight(line, baseFontSize * settings.translationScale / 100, settings);
+    const boxWidth = Math.max(...rows.map(r => ctx.measureText(r).width)) + baseFontSize * 1.2;
+    const boxHeight = rows.length * baseFontSize * 1.1 + translationHeight + baseFontSize * 0.8;
+
+    ctx.save();
+    ctx.globalAlpha = visible;
+    ctx.fillStyle = 'rgba(2, 6, 23, 0.55)';
+    ctx.beginPath();
+    ctx.roundRect(width / 2 - boxWidth / 2, y - boxHeight / 2, boxWidth, boxHeight, 12 * unit);
+    ctx.fill();
+
+    const lineSettings = getLineSettings(line, settings);
+    const sungChars = index === activeIndex && isLineSinging(lyrics, index, currentTime) ? getSungCharCount(line, currentTime) : null;
+    ctx.fillStyle = lineSettings.primaryColor;
+    if (sungChars === null) {
+      ctx.shadowColor = lineSettings.primaryColor;
+      ctx.shadowBlur = settings.glowIntensity * unit;
+    }
+    drawLyricBlock(ctx, line, width / 2, y, maxWidth, baseFontSize, sungChars, settings.glowIntensity * unit, lineSettings);
+    ctx.restore();
+  }
+}
+
+/**
+ * Spectrum bars along the bottom edge, or radiating around the album art
+ * (around the frame center when the layout has no art).
+ */
+function drawVisualizer(
+  ctx: CanvasRenderingContext2D,
+  spectrum: Float32Array,
+  layout: FrameLayout,
+  width: number,
+  height: number,
+  settings: AppSettings
+) {
+  const { unit, art } = layout;
+  ctx.save();
+  ctx.fillStyle = settings.primaryColor;
+  ctx.strokeStyle = settings.primaryColor;
+  ctx.globalAlpha = 0.45;
+  ctx.shadowColor = settings.primaryColor;
+  ctx.shadowBlur = 12 * unit;
+
+  if (settings.visualizer === 'circle') {
+    const cx = art ? art.x + art.size / 2 : width / 2;
+    const cy = art ? art.y + art.size / 2 : height / 2;
+    const innerRadius = art ? art.size * 0.62 : Math.min(width, height) * 0.3;
+    const maxLength = 120 * unit;
+    ctx.lineWidth = 6 * unit;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    // Mirror the bands so the ring is symmetric, low frequencies at the top
+    const count = spectrum.length * 2;
+    for (let i = 0; i < count; i++) {
+      const value = spectrum[i < spectrum.length ? i : count - 1 - i];
+      const angle = -Math.PI / 2 + (i / count) * Math.PI * 2;
+      const length = 4 * unit + value * maxLength;
+      ctx.moveTo(cx + Math.cos(angle) * innerRadius, cy + Math.sin(angle) * innerRadius);
+      ctx.lineTo(cx + Math.cos(angle) * (innerRadius + length), cy + Math.sin(angle) * (innerRadius + length));
+    }
+    ctx.stroke();
+  } else {
+    const gap = 6 * unit;
+    const barWidth = (width - gap * (spectrum.length + 1)) / spectrum.length;
+    const maxHeight = height * 0.14;
+    spectrum.forEach((value, i) => {
+      const barHeight = Math.max(4 * unit, value * maxHeight);
+      ctx.beginPath();
+      ctx.roundRect(gap + i * (barWidth + gap), height - barHeight, barWidth, barHeight + barWidth, barWidth / 2);
+      ctx.fill();
+    });
+  }
+  ctx.restore();
+}
+
+/**
+ * End card shown during the outro: title, artist and credits, laid out in the
+ * lyrics column like the intro title.
+ */
+function drawEndCard(rc: RenderContext, layout: FrameLayout) {
+  const { ctx, metadata, settings, endCardOpacity } = rc;
+  const { unit } = layout;
+  const baseFontSize = settings.fontSize * unit;
+  const x = layout.lyricsX;
+
+  // Each row: text, font size and color; wrapped before measuring the block height
+  const rows: { text: string; size: number; weight: number; font: string; color: string }[] = [];
+  const addRows = (text: string, size: number, weight: number, font: string, color: string) => {
+      ctx.font = fontString(weight, size, font);
+      getWrappedLines(ctx, text, layout.lyricsWidth).forEach(line => rows.push({ text: line, size, weight, font, color }));
+  };
+  const lighterWeight = getLighterWeight(settings.titleFontWeight);
+
+  addRows(getDisplayText(settings.songTitle || "Unknown Track", settings), baseFontSize * 1.2, settings.titleFontWeight, settings.titleFont, settings.primaryColor);
+  if (metadata.artist) addRows(metadata.artist, baseFontSize * 0.75, lighterWeight, settings.titleFont, settings.secondaryColor);
+  const credits = [
+      settings.lyricsCredit.trim() && `Lyrics by ${settings.lyricsCredit.trim()}`,
+      settings.artCredit.trim() && `Cover art by ${settings.artCredit.trim()}`,
+  ].filter(Boolean) as string[];
+  const customRows = settings.endCardText.split(/\r?\n/).map(row => row.trim()).filter(Boolean);
+  if (credits.length || customRows.length) rows.push({ text: '', size: baseFontSize * 0.4, weight: 0, font: '', color: '' });
+  credits.forEach(credit => addRows(credit, baseFontSize * 0.55, lighterWeight, settings.lyricsFont, settings.secondaryColor));
+  customRows.forEach(row => addRows(row, baseFontSize * 0.55, lighterWeight, settings.lyricsFont, settings.translationColor));
+
+  const rowHeight = (row: { size: number }) => row.size * 1.5;
+  let y = layout.verticalCenter - rows.reduce((sum, row) => sum + rowHeight(row), 0) / 2;
+
+  ctx.save();
+  ctx.globalAlpha = endCardOpacity;
+  ctx.textAlign = layout.lyricsAlign;
+  ctx.textBaseline = 'middle';
+  rows.forEach((row, idx) => {
+      const rowY = y + rowHeight(row) / 2;
+      y += rowHeight(row);
+      if (!row.text) return;
+      if (idx === 0) {
+          setTextStyle(ctx, 'title', row.weight, row.size, settings, unit);
+          ctx.shadowColor = settings.primaryColor;
+          ctx.shadowBlur = settings.glowIntensity * unit;
+      } else {
+          ctx.font = fontString(row.weight, row.size, row.font);
+          ctx.shadowBlur = 0;
+      }
+      ctx.direction = isRtlText(row.text) ? 'rtl' : 'ltr';
+      ctx.fillStyle = row.color;
+      if (idx === 0 && settings.textOutline > 0) ctx.strokeText(row.text, x, rowY);
+      ctx.fillText(row.text, x, rowY);
+  });
+  ctx.restore();
+}
+
+const renderFrame = (rc: RenderContext) => {
+  const {
+    ctx,
+    width,
+    height,
+    image,
+    metadata,
+    absoluteTime,
+    isIntro,
+    isOutro,
+    titleOpacity,
+    fadeOutOpacity,
+    audio,
+  } = rc;
+  let { settings } = rc;
+  const layout = getFrameLayout(width, height, settings);
+
+  // Glow breathes with the loudness of the song
+  const reactive = settings.audioReactive && audio ? settings.reactiveStrength / 100 : 0;
+  if (reactive > 0 && audio) {
+      settings = { ...settings, glowIntensity: settings.glowIntensity * (1 - reactive + reactive * (0.4 + audio.level * 1.2)) };
+  }
+  const { unit, art } = layout;
+
+  // 1. Clear Screen
+  ctx.clearRect(0, 0, width, height);
+
+  // 2. Draw Background
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, settings.backgroundColor);
+  gradient.addColorStop(1, '#020617');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // 3. Draw background layer (cover, Ken Burns, slideshow or video loop)
+  drawBackground(rc, layout);
+
+  // 4. Draw Bokeh Overlay (Behind content, over background)
+  if (settings.bokehEnabled) {
+      drawBokeh(ctx, width, height, absoluteTime, settings, reactive * (audio?.beat ?? 0));
+  }
+
+  // 4b. Spectrum visualizer
+  if (settings.visualizer !== 'none' && audio) {
+      drawVisualizer(ctx, audio.spectrum, layout, width, height, settings);
+  }
+
+  // 5. Draw Album Art
+  if (art && image) {
+    ctx.save();
+    ctx.shadowColor = 'rgba(0,0,0,0.6)';
+    ctx.shadowBlur = 40 * unit;
+    ctx.shadowOffsetY = 20 * unit;
+    
+    drawRoundedImage(ctx, image, art.x, art.y, art.size, art.size, 24 * unit, 4 * unit);
+    ctx.restore();
+  } else if (art) {
+    // Placeholder
+    ctx.fillStyle = 'rgba(255,255,255,0.05)';
+    
+    ctx.beginPath();
+    ctx.roundRect(art.x, art.y, art.size, art.size, 24 * unit);
+    ctx.fill();
+    
+    ctx.fillStyle = 'rgba(255,255,255,0.3)';
+    ctx.font = `500 ${32 * unit}px Inter`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('No Cover Art', art.x + art.size/2, art.y + art.size/2);
+  }
+
+  const baseFontSize = settings.fontSize * unit;
+
+  // 6. INTRO MODE: Show Title
+  if (isIntro) {
+      ctx.textAlign = layout.lyricsAlign;
+      ctx.textBaseline = 'middle';
       
-      const titleX = rightPanelStart;
-      const titleY = verticalCenter;
+      const titleX = layout.lyricsX;
+      const titleY = layout.verticalCenter;
       
       ctx.save();
       ctx.globalAlpha = titleOpacity; // Apply Fade Out
-      ctx.font = `bold ${settings.fontSize * 1.5}px Inter, sans-serif`;
+      setTextStyle(ctx, 'title', settings.titleFontWeight, baseFontSize * 1.5, settings, unit);
       ctx.fillStyle = settings.primaryColor;
       ctx.shadowColor = settings.primaryColor;
-      ctx.shadowBlur = settings.glowIntensity * 1.5;
+      ctx.shadowBlur = settings.glowIntensity * 1.5 * unit;
       
       // Wrap title if needed
-      const titleLines = getWrappedLines(ctx, settings.songTitle || "Unknown Track", rightPanelWidth);
+      const titleLines = getWrappedLines(ctx, getDisplayText(settings.songTitle || "Unknown Track", settings), layout.lyricsWidth);
       
       titleLines.forEach((line, idx) => {
-          const yOff = (idx - (titleLines.length - 1) / 2) * (settings.fontSize * 1.8);
+          const yOff = (idx - (titleLines.length - 1) / 2) * (baseFontSize * 1.8);
+          if (settings.textOutline > 0) ctx.strokeText(line, titleX, titleY + yOff);
           ctx.fillText(line, titleX, titleY + yOff);
       });
+
+      // Artist / Album line from LRC ID tags
+      const subtitle = [metadata.artist, metadata.album].filter(Boolean).join(' • ');
+      if (settings.showMetadata && subtitle) {
+          const subtitleY = titleY + ((titleLines.length - 1) / 2) * (baseFontSize * 1.8) + baseFontSize * 1.6;
+          ctx.font = fontString(getLighterWeight(settings.titleFontWeight), baseFontSize * 0.75, settings.titleFont);
+          ctx.fillStyle = settings.secondaryColor;
+          ctx.shadowBlur = 0;
+          getWrappedLines(ctx, subtitle, layout.lyricsWidth).forEach((line, idx) => {
+              ctx.fillText(line, titleX, subtitleY + idx * baseFontSize);
+          });
+      }
       
       ctx.restore();
       return;
   }
 
-  // 7. LYRICS MODE
-  ctx.textAlign = 'left';
-  ctx.textBaseline = 'middle';
-  
-  const baseFontSize = settings.fontSize;
-  const lineHeight = baseFontSize * 2.2;
-  const maxVisibleDist = 5;
+  // 7. LYRICS MODE
+  const lyricsContext = { ...rc, settings };
+  switch (settings.template) {
+    case 'karaoke':
+      drawTwoLineLyrics(lyricsContext, layout);
+      break;
+    case 'subtitle':
+      drawSubtitleLyrics(lyricsContext, layout);
+      break;
+    default:
+      drawScrollingLyrics(lyricsContext, layout);
+  }
+
+  // 8. OUTRO: End card over the fading lyrics, then fade to black
+  if (isOutro) {
+      drawEndCard(lyricsContext, layout);
+      if (fadeOutOpacity > 0) {
+          ctx.fillStyle = `rgba(0,0,0,${fadeOutOpacity})`;
+          ctx.fillRect(0, 0, width, height);
+      }
+  }
+};
+
+// --- UTILS: BACKGROUND MEDIA ---
+
+const loadImageFile = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read a slideshow image.'));
+    };
+    img.src = url;
+  });
+
+/**
+ * Loads a muted, looping video element for the background, resolved once its
+ * first frame can be drawn. Release it with `releaseBackgroundVideo`.
+ */
+const loadBackgroundVideo = (file: Blob): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      releaseBackgroundVideo(video);
+      reject(new Error('Could not read the background video.'));
+    };
+    video.src = URL.createObjectURL(file);
+  });
+
+const releaseBackgroundVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+};
+
+// Seconds the playing preview video may drift from the timeline before it is seeked back
+const VIDEO_SYNC_TOLERANCE = 0.3;
+
+// Position in the loop for a point on the timeline
+const getVideoLoopTime = (video: HTMLVideoElement, timelineTime: number): number =>
+  Number.isFinite(video.duration) && video.duration > 0 ? timelineTime % video.duration : 0;
+
+// Seeks and waits until the frame at `time` can be drawn
+const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (!video.seeking && Math.abs(video.currentTime - time) < 1e-3) {
+      resolve();
+      return;
+    }
+    const done = (error?: Error) => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onSeeked = () => done();
+    const onError = () => done(new Error('Could not read the background video.'));
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = time;
+  });
+
+// --- UTILS: OFFLINE EXPORT ---
+
+export interface OfflineExportOptions {
+  audioBuffer: AudioBuffer;
+  image: HTMLImageElement | null;
+  slides: HTMLImageElement[];
+  backgroundVideo: HTMLVideoElement | null; // Paused; seeked to every frame
+  lyrics: LyricLine[];
+  metadata: LrcMetadata;
+  settings: AppSettings;
+  fps: number;
+  signal: AbortSignal;
+  onProgress: (progress: number) => void; // 0 to 1
+}
+
+const OFFLINE_EXPORT_FPS = 60;
+const EXPORT_SAMPLE_RATE = 48000;
+const EXPORT_VIDEO_BITRATE = 8000000; // 8 Mbps at 1080p, same as the realtime recorder
+const EXPORT_AUDIO_BITRATE = 320000;  // 320 kbps
+const KEYFRAME_INTERVAL = 2; // Seconds
+const CLIP_AUDIO_FADE = 0.5; // Seconds of audio fade at both ends of a clip
+
+// H.264 High, Main and Baseline profiles at level 5.2 (4K60) then 5.1, then AAC-LC or Opus
+const VIDEO_CODEC_CANDIDATES = ['avc1.640034', 'avc1.640033', 'avc1.4d0033', 'avc1.420033'];
+const AUDIO_CODEC_CANDIDATES: { codec: 'aac' | 'opus'; codecString: string }[] = [
+  { codec: 'aac', codecString: 'mp4a.40.2' },
+  { codec: 'opus', codecString: 'opus' },
+];
+
+const isOfflineExportSupported = (): boolean =>
+  typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined' && typeof AudioData !== 'undefined';
+
+/**
+ * Fetches and decodes the audio file at the export sample rate.
+ */
+const decodeAudioFile = async (url: string): Promise<AudioBuffer> => {
+  const response = await fetch(url);
+  const data = await response.arrayBuffer();
+  const actx = new OfflineAudioContext({ numberOfChannels: 2, length: 1, sampleRate: EXPORT_SAMPLE_RATE });
+  return actx.decodeAudioData(data);
+};
+
+const pickVideoConfig = async (width: number, height: number, fps: number): Promise<VideoEncoderConfig | null> => {
+  for (const codec of VIDEO_CODEC_CANDIDATES) {
+    // Scale the bitrate with the pixel count so 4K and 720p get comparable quality
+    const bitrate = Math.round(EXPORT_VIDEO_BITRATE * Math.max(0.5, (width * height) / (1920 * 1080)));
+    const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: fps };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  return null;
+};
+
+const pickAudioConfig = async (
+  sampleRate: number,
+  numberOfChannels: number
+): Promise<{ codec: 'aac' | 'opus'; config: AudioEncoderConfig } | null> => {
+  for (const candidate of AUDIO_CODEC_CANDIDATES) {
+    const config: AudioEncoderConfig = { codec: candidate.codecString, sampleRate, numberOfChannels, bitrate: EXPORT_AUDIO_BITRATE };
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (supported) return { codec: candidate.codec, config };
+  }
+  return null;
+};
+
+// Lets queued encoder work drain and the UI repaint between frames
+const waitForEncoder = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > 4) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+};
+
+/**
+ * Renders the whole video (intro card + song) frame by frame on a virtual
+ * clock and encodes it with WebCodecs into an MP4 file. Much faster than
+ * realtime recording and unaffected by dropped frames or tab throttling.
+ */
+const renderOffline = async ({
+  audioBuffer,
+  image,
+  slides,
+  backgroundVideo,
+  lyrics,
+  metadata,
+  settings,
+  fps,
+  signal,
+  onProgress,
+}: OfflineExportOptions): Promise<Blob> => {
+  const width = settings.videoWidth;
+  const height = settings.videoHeight;
+  const sampleRate = audioBuffer.sampleRate;
+  const numberOfChannels = Math.min(2, audioBuffer.numberOfChannels);
 
-  const startIndex = Math.max(0, Math.floor(smoothActiveIndex - maxVisibleDist));
-  const endIndex = Math.min(lyrics.length - 1, Math.ceil(smoothActiveIndex + maxVisibleDist));
+  const videoConfig = await pickVideoConfig(width, height, fps);
+  const audioConfig = await pickAudioConfig(sampleRate, numberOfChannels);
+  if (!videoConfig || !audioConfig) {
+    throw new Error('This browser cannot encode H.264 video with AAC or Opus audio.');
+  }
 
-  for (let i = startIndex; i <= endIndex; i++) {
-    const line = lyrics[i];
-    const distance = i - smoothActiveIndex; 
-    const yPos = verticalCenter + (distance * lineHeight);
-    const absDist = Math.abs(distance);
-    
-    // Scale Logic - Cosine easing for smoother center transition
-    let scale = 1.0;
-    if (absDist < 1.0) {
-        // Cosine-based ease (smooth bell curve shape) to avoid sharp "point" at 0
-        const ease = (1 + Math.cos(Math.PI * absDist)) / 2; // Goes from 1.0 (at 0) to 0.0 (at 1)
-        scale = 1.0 + 0.15 * ease;
+  // Set up before the encoders, which only the finally below closes again
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create an export canvas.');
+  await ensureFontsLoaded(settings);
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'avc', width, height, frameRate: fps },
+    audio: { codec: audioConfig.codec, numberOfChannels, sampleRate },
+    fastStart: 'in-memory',
+  });
+
+  // Encoder errors arrive asynchronously; they are rethrown from the frame loop
+  let encoderError: Error | null = null;
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encoderError = e; },
+  });
+  const audioEncoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (e) => { encoderError = e; },
+  });
+  videoEncoder.configure(videoConfig);
+  audioEncoder.configure(audioConfig.config);
+
+  // The intro card is silence, followed by the decoded track (or the clip range of it) and a silent outro
+  const range = getSongRange(settings, audioBuffer.duration);
+  const rangeStart = Math.round(range.start * sampleRate);
+  const rangeEnd = Math.min(audioBuffer.length, Math.round(range.end * sampleRate));
+  const introSamples = Math.round(range.introDuration * sampleRate);
+  const outroSamples = Math.round(settings.outroDuration * sampleRate);
+  const totalSamples = introSamples + (rangeEnd - rangeStart) + outroSamples;
+  const fadeSamples = settings.clipEnabled ? Math.round(CLIP_AUDIO_FADE * sampleRate) : 0;
+  const totalFrames = Math.ceil((totalSamples / sampleRate) * fps);
+  const channels = Array.from({ length: numberOfChannels }, (_, c) => audioBuffer.getChannelData(c));
+  const analysis = needsAudioAnalysis(settings) ? analyzeAudioBuffer(audioBuffer) : null;
+  let encodedSamples = 0;
+
+  try {
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (signal.aborted) throw new DOMException('Export cancelled', 'AbortError');
+      if (encoderError) throw encoderError;
+
+      const timelineTime = frame / fps;
+      const frameState = getFrameState(timelineTime, lyrics, settings, audioBuffer.duration, fps);
+      if (backgroundVideo && settings.backgroundSource === 'video') {
+        await seekVideo(backgroundVideo, getVideoLoopTime(backgroundVideo, frameState.absoluteTime / 1000));
+      }
+
+      renderFrame({
+        ctx,
+        width,
+        height,
+        image,
+        slides,
+        backgroundVideo,
+        lyrics,
+        metadata,
+        ...frameState,
+        audio: analysis && !frameState.isIntro && !frameState.isOutro ? getAudioFeatures(analysis, frameState.currentTime) : null,
+        settings,
+      });
+
+      const timestamp = Math.round(timelineTime * 1e6);
+      const videoFrame = new VideoFrame(canvas, { timestamp, duration: Math.round(1e6 / fps) });
+      videoEncoder.encode(videoFrame, { keyFrame: frame % Math.round(KEYFRAME_INTERVAL * fps) === 0 });
+      videoFrame.close();
+
+      // Keep audio encoded up to the end of this frame
+      const targetSamples = Math.min(totalSamples, Math.round(((frame + 1) / fps) * sampleRate));
+      if (targetSamples > encodedSamples) {
+        const count = targetSamples - encodedSamples;
+        const planar = new Float32Array(count * numberOfChannels);
+        const sourceStart = rangeStart + encodedSamples - introSamples;
+        const from = Math.max(rangeStart, sourceStart);
+        const to = Math.min(rangeEnd, sourceStart + count);
+        if (to > from) {
+          channels.forEach((data, c) => planar.set(data.subarray(from, to), c * count + (from - sourceStart)));
+        }
+
+        // Clips fade in and out so they do not start or stop mid-note
+        if (fadeSamples > 0) {
+          for (let i = from; i < to; i++) {
+            const gain = Math.min(1, (i - rangeStart) / fadeSamples, (rangeEnd - i) / fadeSamples);
+            if (gain >= 1) continue;
+            for (let c = 0; c < numberOfChannels; c++) planar[c * count + (i - sourceStart)] *= gain;
+          }
+        }
+
+        const audioData = new AudioData({
+          format: 'f32-planar',
+          sampleRate,
+          numberOfFrames: count,
+          numberOfChannels,
+          timestamp: Math.round((encodedSamples / sampleRate) * 1e6),
+          data: planar,
+        });
+        audioEncoder.encode(audioData);
+        audioData.close();
+        encodedSamples = targetSamples;
+      }
+
+      onProgress((frame + 1) / totalFrames);
+      await waitForEncoder(videoEncoder);
+      if (frame % 10 === 0) await new Promise(resolve => setTimeout(resolve, 0));
     }
 
-    // Color & Alpha Logic
-    let color = settings.secondaryColor;
-    let alpha = 1.0;
-    let blur = 0;
+    await videoEncoder.flush();
+    await audioEncoder.flush();
+    if (encoderError) throw encoderError;
 
-    if (absDist < 0.6) {
-        const factor = absDist * 1.66; // Normalize 0.6 to 1.0
-        color = interpolateColor(settings.primaryColor, settings.secondaryColor, factor);
+    muxer.finalize();
+    return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+  } finally {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+};
+
+// --- UTILS: AUDIO PROCESSING ---
+
+/**
+ * Mid/side vocal reduction. Lead vocals usually sit in the center of a stereo
+ * mix, so the center (mid) is removed above `vocalBassCutoff` by the
+ * `vocalReduction` share, while the sides and the bass in the center pass.
+ *
+ * The highs are the center minus its lowpass, so the bands always sum back to
+ * the center: center' = (1 - r) * mid + r * lowpass(mid), flat at r = 0.
+ */
+export interface VocalReducer {
+  input: AudioNode;
+  output: AudioNode;
+  bass: BiquadFilterNode; // Center below the cutoff
+  midLevel: GainNode;     // 1 - r of the whole center
+  bassLevel: GainNode;    // r of the bass, restoring it where the center was removed
+}
+
+const createVocalReducer = (actx: BaseAudioContext, settings: AppSettings): VocalReducer => {
+  // Mono sources are upmixed so both channels carry the signal
+  const input = new GainNode(actx, { channelCount: 2, channelCountMode: 'explicit', channelInterpretation: 'speakers' });
+  const splitter = new ChannelSplitterNode(actx, { numberOfOutputs: 2 });
+  const output = new ChannelMergerNode(actx, { numberOfInputs: 2 });
+  input.connect(splitter);
+
+  // mid = (L + R) / 2, side = (L - R) / 2
+  const mid = new GainNode(actx, { gain: 0.5 });
+  splitter.connect(mid, 0);
+  splitter.connect(mid, 1);
+  const side = new GainNode(actx, { gain: 0.5 });
+  const rightInverted = new GainNode(actx, { gain: -1 });
+  splitter.connect(side, 0);
+  splitter.connect(rightInverted, 1);
+  rightInverted.connect(side);
+
+  const bass = new BiquadFilterNode(actx, { type: 'lowpass' });
+  const midLevel = new GainNode(actx);
+  const bassLevel = new GainNode(actx);
+  mid.connect(midLevel);
+  mid.connect(bass);
+  bass.connect(bassLevel);
+
+  // L = center + side, R = center - side
+  const sideInverted = new GainNode(actx, { gain: -1 });
+  side.connect(sideInverted);
+  for (const node of [midLevel, bassLevel]) {
+    node.connect(output, 0, 0);
+    node.connect(output, 0, 1);
+  }
+  side.connect(output, 0, 0);
+  sideInverted.connect(output, 0, 1);
+
+  const reducer = { input, output, bass, midLevel, bassLevel };
+  updateVocalReducer(reducer, settings);
+  return reducer;
+};
+
+const updateVocalReducer = (reducer: VocalReducer, settings: AppSettings) => {
+  const reduction = settings.vocalReduction / 100;
+  reducer.bass.frequency.value = settings.vocalBassCutoff;
+  reducer.midLevel.gain.value = 1 - reduction;
+  reducer.bassLevel.gain.value = reduction;
+};
+
+/**
+ * Playback and recording graph around the song's media element. The recorder
+ * always gets the processed mix; the speakers get the original instead while
+ * `monitorOriginal` is on, for A/B comparison.
+ *
+ *   song - songLevel -+- dry -----------------+- mix - fade -+- recorder
+ *                     +- vocal reducer - wet -+       |      +- processedMonitor - speakers
+ *   guide - guideLevel -------------------------------+
+ *   song ------------------------------------------- originalMonitor - speakers
+ */
+export interface AudioGraph {
+  context: AudioContext;
+  song: MediaElementAudioSourceNode;
+  guide: MediaElementAudioSourceNode | null; // Connected once the stems are in use
+  reducer: VocalReducer;
+  songLevel: GainNode;
+  guideLevel: GainNode;
+  dry: GainNode;
+  wet: GainNode;
+  fade: GainNode; // Clip fade in and out
+  processedMonitor: GainNode;
+  originalMonitor: GainNode;
+  recorder: MediaStreamAudioDestinationNode;
+}
+
+// Media elements can only be connected once, so the graph lives as long as the element
+const createAudioGraph = (context: AudioContext, element: HTMLMediaElement, media: MediaState, settings: AppSettings): AudioGraph => {
+  const song = context.createMediaElementSource(element);
+  const songLevel = new GainNode(context);
+  const guideLevel = new GainNode(context);
+  const dry = new GainNode(context);
+  const wet = new GainNode(context);
+  const fade = new GainNode(context);
+  const processedMonitor = new GainNode(context);
+  const originalMonitor = new GainNode(context);
+  const recorder = context.createMediaStreamDestination();
+  const reducer = createVocalReducer(context, settings);
+
+  song.connect(songLevel);
+  songLevel.connect(dry);
+  songLevel.connect(reducer.input);
+  reducer.output.connect(wet);
+  dry.connect(fade);
+  wet.connect(fade);
+  guideLevel.connect(fade);
+  fade.connect(recorder);
+  fade.connect(processedMonitor);
+  processedMonitor.connect(context.destination);
+  song.connect(originalMonitor);
+  originalMonitor.connect(context.destination);
+
+  const graph = { context, song, guide: null, reducer, songLevel, guideLevel, dry, wet, fade, processedMonitor, originalMonitor, recorder };
+  updateAudioGraph(graph, media, settings, false);
+  return graph;
+};
+
+const connectGuideVocal = (graph: AudioGraph, element: HTMLMediaElement) => {
+  graph.guide?.disconnect();
+  graph.guide = graph.context.createMediaElementSource(element);
+  graph.guide.connect(graph.guideLevel);
+};
+
+const updateAudioGraph = (graph: AudioGraph, media: MediaState, settings: AppSettings, monitorOriginal: boolean) => {
+  const stems = isStemsActive(media, settings);
+  const reduce = settings.audioMode === 'vocalReduction';
+  updateVocalReducer(graph.reducer, settings);
+  graph.songLevel.gain.value = stems ? settings.instrumentalLevel / 100 : 1;
+  graph.guideLevel.gain.value = stems ? settings.guideVocalLevel / 100 : 0;
+  graph.dry.gain.value = reduce ? 0 : 1;
+  graph.wet.gain.value = reduce ? 1 : 0;
+  // A/B only compares against the vocal reduction
+  const original = reduce && monitorOriginal;
+  graph.processedMonitor.gain.value = original ? 0 : 1;
+  graph.originalMonitor.gain.value = original ? 1 : 0;
+};
+
+// Seconds the guide vocal may drift from the song before it is seeked back
+const GUIDE_SYNC_TOLERANCE = 0.1;
+
+// The stems mode falls back to the song until an instrumental is loaded
+const isStemsActive = (media: MediaState, settings: AppSettings): boolean =>
+  settings.audioMode === 'stems' && media.instrumentalUrl !== null;
+
+// Audio the video is built on: the instrumental in the stems mode, otherwise the song
+const getSongUrl = (media: MediaState, settings: AppSettings): string | null =>
+  isStemsActive(media, settings) ? media.instrumentalUrl : media.audioUrl;
+
+/**
+ * Decodes the audio for the export, processed like the playback: the song with
+ * or without vocal reduction, or the instrumental mixed with the guide vocal.
+ */
+const decodeExportAudio = async (media: MediaState, settings: AppSettings): Promise<AudioBuffer> => {
+  const songUrl = getSongUrl(media, settings);
+  if (!songUrl) throw new Error('No audio loaded.');
+  const song = await decodeAudioFile(songUrl);
+  const stems = isStemsActive(media, settings);
+  if (!stems && settings.audioMode !== 'vocalReduction') return song;
+
+  const guide = stems && media.guideVocalUrl ? await decodeAudioFile(media.guideVocalUrl) : null;
+  const actx = new OfflineAudioContext({ numberOfChannels: 2, length: song.length, sampleRate: song.sampleRate });
+  const source = new AudioBufferSourceNode(actx, { buffer: song });
+  if (stems) {
+    const songLevel = new GainNode(actx, { gain: settings.instrumentalLevel / 100 });
+    source.connect(songLevel).connect(actx.destination);
+    if (guide) {
+      const guideSource = new AudioBufferSourceNode(actx, { buffer: guide });
+      guideSource.connect(new GainNode(actx, { gain: settings.guideVocalLevel / 100 })).connect(actx.destination);
+      guideSource.start();
     }
-    
-    if (absDist > 2) {
-        alpha = Math.max(0, 1 - (absDist - 2) * 0.4);
+  } else {
+    const reducer = createVocalReducer(actx, settings);
+    source.connect(reducer.input);
+    reducer.output.connect(actx.destination);
+  }
+  source.start();
+  return actx.startRendering();
+};
+
+// --- UTILS: PALETTE ---
+
+/**
+ * A color cluster from the album art
+ */
+interface PaletteSwatch {
+  r: number;
+  g: number;
+  b: number;
+  population: number; // Share of the sampled pixels, 0 to 1
+}
+
+/**
+ * The color settings a cover theme fills in
+ */
+export interface ThemePalette {
+  name: string;
+  primaryColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+  bokehColor: string;
+}
+
+interface Hsl { h: number; s: number; l: number } // Hue in degrees, saturation and lightness 0 to 1
+
+const PALETTE_SAMPLE_SIZE = 64; // The cover is downscaled to this many pixels per side
+const PALETTE_MAX_SWATCHES = 12;
+const MIN_TEXT_CONTRAST = 4.5; // WCAG AA for the active line
+const MIN_INACTIVE_CONTRAST = 2.5; // Inactive lines are dimmer but must stay legible
+
+const rgbToHsl = ({ r, g, b }: { r: number; g: number; b: number }): Hsl => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+  const s = d / (1 - Math.abs(2 * l - 1));
+  const h = max === rn ? ((gn - bn) / d + 6) % 6 : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return { h: h * 60, s, l };
+};
+
+const hslToHex = ({ h, s, l }: Hsl): string => {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] = h < 60 ? [c, x, 0] : h < 120 ? [x, c, 0] : h < 180 ? [0, c, x] : h < 240 ? [0, x, c] : h < 300 ? [x, 0, c] : [c, 0, x];
+  const toHex = (v: number) => Math.round(Math.max(0, Math.min(1, v + m)) * 255).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+};
+
+// WCAG relative luminance and contrast ratio
+const getLuminance = (hex: string): number => {
+  const { r, g, b } = hexToRgb(hex);
+  const [lr, lg, lb] = [r, g, b].map(v => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+const getContrastRatio = (hex1: string, hex2: string): number => {
+  const [light, dark] = [getLuminance(hex1), getLuminance(hex2)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Lightens a color over a dark background until it reaches the contrast ratio
+const ensureContrast = (color: Hsl, background: string, minRatio: number): string => {
+  let l = color.l;
+  let hex = hslToHex(color);
+  while (getContrastRatio(hex, background) < minRatio && l < 1) {
+    l = Math.min(1, l + 0.04);
+    hex = hslToHex({ ...color, l });
+  }
+  return hex;
+};
+
+/**
+ * Quantizes the cover into up to PALETTE_MAX_SWATCHES colors with median cut,
+ * most common first.
+ */
+const extractSwatches = (image: HTMLImageElement): PaletteSwatch[] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PALETTE_SAMPLE_SIZE;
+  canvas.height = PALETTE_SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+  ctx.drawImage(image, 0, 0, PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE);
+
+  const pixels: number[][] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  if (!pixels.length) return [];
+
+  const channelRange = (box: number[][], c: number) =>
+    box.reduce((max, p) => Math.max(max, p[c]), 0) - box.reduce((min, p) => Math.min(min, p[c]), 255);
+  const widestChannel = (box: number[][]) => [0, 1, 2].reduce((best, c) => channelRange(box, c) > channelRange(box, best) ? c : best, 0);
+
+  // Split the box with the largest spread (weighted by size) until there are enough
+  const boxes = [pixels];
+  while (boxes.length < PALETTE_MAX_SWATCHES) {
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      const score = box.length > 1 ? channelRange(box, widestChannel(box)) * box.length : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        target = i;
+      }
+    });
+    if (target < 0) break;
+    const box = boxes[target];
+    const channel = widestChannel(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    const half = box.length >> 1;
+    boxes.splice(target, 1, box.slice(0, half), box.slice(half));
+  }
+
+  return boxes
+    .map(box => ({
+      r: box.reduce((sum, p) => sum + p[0], 0) / box.length,
+      g: box.reduce((sum, p) => sum + p[1], 0) / box.length,
+      b: box.reduce((sum, p) => sum + p[2], 0) / box.length,
+      population: box.length / pixels.length,
+    }))
+    .sort((a, b) => b.population - a.population);
+};
+
+/**
+ * Turns the cover swatches into a few complete themes (vibrant, muted, dominant
+ * and light). Backgrounds are kept dark and text colors are lightened until they
+ * pass the contrast checks against them.
+ */
+const buildThemePalettes = (swatches: PaletteSwatch[]): ThemePalette[] => {
+  if (!swatches.length) return [];
+  const colors = swatches.map(swatch => ({ ...rgbToHsl(swatch), population: swatch.population }));
+  const pick = (score: (c: Hsl & { population: number }) => number) =>
+    colors.reduce((best, c) => score(c) > score(best) ? c : best, colors[0]);
+
+  const dominant = colors[0];
+  const vibrant = pick(c => c.s * (1 - Math.abs(c.l - 0.55)) * (0.5 + c.population));
+  const muted = pick(c => (1 - Math.abs(c.s - 0.3)) * (1 - Math.abs(c.l - 0.5)) * (0.5 + c.population));
+  const darkest = pick(c => 1 - c.l);
+
+  const makePalette = (name: string, accent: Hsl, background: Hsl, bokeh: Hsl): ThemePalette => {
+    const backgroundColor = hslToHex({ h: background.h, s: Math.min(background.s, 0.6), l: Math.min(background.l, 0.12) });
+    const primaryColor = ensureContrast({ ...accent, l: Math.max(accent.l, 0.55) }, backgroundColor, MIN_TEXT_CONTRAST);
+    // Inactive lines: a desaturated, darker shade of the accent
+    const inactive = { h: accent.h, s: Math.min(accent.s, 0.25), l: Math.max(0.3, rgbToHsl(hexToRgb(primaryColor)).l - 0.15) };
+    return {
+      name,
+      primaryColor,
+      secondaryColor: ensureContrast(inactive, backgroundColor, MIN_INACTIVE_CONTRAST),
+      backgroundColor,
+      bokehColor: hslToHex({ h: bokeh.h, s: Math.max(bokeh.s, 0.5), l: 0.6 }),
+    };
+  };
+
+  const palettes = [
+    makePalette('Vibrant', vibrant, dominant, vibrant),
+    makePalette('Muted', muted, dominant, vibrant),
+    makePalette('Dominant', dominant, darkest, muted),
+    makePalette('Light', { h: vibrant.h, s: 0.3, l: 0.94 }, vibrant, vibrant),
+  ];
+  // Low-color covers can produce the same theme twice
+  return palettes.filter((p, i) => palettes.findIndex(o => o.primaryColor === p.primaryColor && o.backgroundColor === p.backgroundColor) === i);
+};
+
+// --- UTILS: PROJECTS ---
+
+// MediaState without the blob URLs, which only live as long as the page
+export type StoredMedia = Omit<MediaState, 'audioUrl' | 'imageUrl' | 'instrumentalUrl' | 'guideVocalUrl'>;
+
+/**
+ * Everything needed to reopen a video: media files, lyrics and settings
+ */
+export interface Project {
+  id: string;
+  name: string;
+  updatedAt: number; // Milliseconds since the epoch
+  media: StoredMedia;
+  settings: AppSettings;
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'updatedAt'>;
+
+// Plain JSON object (not an array or null)
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Projects are split over three stores: the small documents (lyrics and settings),
+// their media blobs, and the summaries the recent list is read from
+const PROJECT_DB_NAME = 'lyricflow';
+const PROJECT_DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const PROJECT_FILE_STORE = 'files';
+const PROJECT_SUMMARY_STORE = 'summaries';
+const RECENT_PROJECT_LIMIT = 8;
+const AUTOSAVE_DELAY = 1000; // Milliseconds after the last change
+
+// Archive layout: magic, header length (uint32 LE), JSON header, then the bytes of
+// the audio, image, fonts, background video, slides and stems
+const PROJECT_ARCHIVE_MAGIC = 'LYRICFLOW';
+const PROJECT_ARCHIVE_VERSION = 1;
+const PROJECT_ARCHIVE_EXTENSION = 'lyricflow';
+
+interface ArchiveFileInfo {
+  type: string;
+  size: number; // Bytes
+}
+
+interface ProjectArchiveHeader {
+  version: number;
+  name: string;
+  settings: AppSettings;
+  media: Omit<StoredMedia, 'audioFile' | 'imageFile' | 'backgroundVideoFile' | 'slideFiles' | 'fonts' | 'instrumentalFile' | 'guideVocalFile'>;
+  audio: ArchiveFileInfo | null;
+  image: ArchiveFileInfo | null;
+  fonts?: (ArchiveFileInfo & { family: string })[]; // Stored after the image
+  backgroundVideo?: ArchiveFileInfo | null; // Stored after the fonts
+  slides?: ArchiveFileInfo[];
+  instrumental?: ArchiveFileInfo | null; // Stored after the slides
+  guideVocal?: ArchiveFileInfo | null;
+}
+
+// The media blobs of a project, stored apart so autosaving an edit does not rewrite them
+export type ProjectFiles = Pick<StoredMedia,
+  'audioFile' | 'imageFile' | 'instrumentalFile' | 'guideVocalFile' | 'backgroundVideoFile' | 'slideFiles' | 'fonts'>;
+
+type ProjectDocument = Omit<Project, 'media'> & { media: Omit<StoredMedia, keyof ProjectFiles> };
+
+const NO_PROJECT_FILES: ProjectFiles = {
+  audioFile: null,
+  imageFile: null,
+  instrumentalFile: null,
+  guideVocalFile: null,
+  backgroundVideoFile: null,
+  slideFiles: [],
+  fonts: [],
+};
+
+const splitProject = (project: Project): { document: ProjectDocument; files: ProjectFiles; summary: ProjectSummary } => {
+  const { audioFile, imageFile, instrumentalFile, guideVocalFile, backgroundVideoFile, slideFiles, fonts, ...media } = project.media;
+  const { id, name, updatedAt } = project;
+  return {
+    document: { ...project, media },
+    files: { audioFile, imageFile, instrumentalFile, guideVocalFile, backgroundVideoFile, slideFiles, fonts },
+    summary: { id, name, updatedAt },
+  };
+};
+
+const getProjectFiles = (project: Project): ProjectFiles => splitProject(project).files;
+
+// Same blobs (by identity), so the stored copies are still current
+const isSameProjectFiles = (a: ProjectFiles, b: ProjectFiles): boolean =>
+  a.audioFile === b.audioFile && a.imageFile === b.imageFile
+  && a.instrumentalFile === b.instrumentalFile && a.guideVocalFile === b.guideVocalFile
+  && a.backgroundVideoFile === b.backgroundVideoFile
+  && a.slideFiles.length === b.slideFiles.length && a.slideFiles.every((file, i) => file === b.slideFiles[i])
+  && a.fonts.length === b.fonts.length && a.fonts.every((font, i) => font.file === b.fonts[i].file && font.family === b.fonts[i].family);
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let projectDb: Promise<IDBDatabase> | null = null;
+
+const openProjectDb = (): Promise<IDBDatabase> => {
+  projectDb ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(PROJECT_DB_NAME, PROJECT_DB_VERSION);
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      if (e.oldVersion < 1) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      if (e.oldVersion < 2) {
+        const files = db.createObjectStore(PROJECT_FILE_STORE); // Keyed by project id
+        const summaries = db.createObjectStore(PROJECT_SUMMARY_STORE, { keyPath: 'id' });
+        // Version 1 kept the blobs inside the project records
+        const cursorRequest = request.transaction?.objectStore(PROJECT_STORE).openCursor();
+        if (cursorRequest) cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const { document, files: projectFiles, summary } = splitProject(cursor.value);
+          cursor.update(document);
+          files.put(projectFiles, summary.id);
+          summaries.put(summary);
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return projectDb;
+};
+
+const PROJECT_STORES = [PROJECT_STORE, PROJECT_FILE_STORE, PROJECT_SUMMARY_STORE];
+
+/**
+ * Stores a project. Pass `withFiles: false` when its blobs are already stored
+ * unchanged, so only the lyrics, settings and summary are written.
+ */
+const saveProject = async (project: Project, withFiles = true) => {
+  const { document, files, summary } = splitProject(project);
+  const transaction = (await openProjectDb()).transaction(PROJECT_STORES, 'readwrite');
+  transaction.objectStore(PROJECT_STORE).put(document);
+  if (withFiles) transaction.objectStore(PROJECT_FILE_STORE).put(files, project.id);
+  transaction.objectStore(PROJECT_SUMMARY_STORE).put(summary);
+  await transactionToPromise(transaction);
+};
+
+const loadProject = async (id: string): Promise<Project | undefined> => {
+  const transaction = (await openProjectDb()).transaction([PROJECT_STORE, PROJECT_FILE_STORE], 'readonly');
+  const [document, files]: [ProjectDocument | undefined, ProjectFiles | undefined] = await Promise.all([
+    requestToPromise(transaction.objectStore(PROJECT_STORE).get(id)),
+    requestToPromise(transaction.objectStore(PROJECT_FILE_STORE).get(id)),
+  ]);
+  if (!document) return undefined;
+  // Projects that never had media have no files record
+  return { ...document, media: { ...(files ?? NO_PROJECT_FILES), ...document.media } };
+};
+
+const deleteProject = async (id: string) => {
+  const transaction = (await openProjectDb()).transaction(PROJECT_STORES, 'readwrite');
+  PROJECT_STORES.forEach(store => transaction.objectStore(store).delete(id));
+  await transactionToPromise(transaction);
+};
+
+// Most recently saved first; reads only the summaries, not the projects and their media
+const listRecentProjects = async (): Promise<ProjectSummary[]> => {
+  const transaction = (await openProjectDb()).transaction(PROJECT_SUMMARY_STORE, 'readonly');
+  const summaries: ProjectSummary[] = await requestToPromise(transaction.objectStore(PROJECT_SUMMARY_STORE).getAll());
+  return summaries
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, RECENT_PROJECT_LIMIT);
+};
+
+/**
+ * Packs a project and its media files into one `.lyricflow` file.
+ */
+const exportProjectArchive = (project: Project): Blob => {
+  const { audioFile, imageFile, backgroundVideoFile, slideFiles, fonts, instrumentalFile, guideVocalFile, ...media } = project.media;
+  const fileInfo = (file: Blob) => ({ type: file.type, size: file.size });
+  const header: ProjectArchiveHeader = {
+    version: PROJECT_ARCHIVE_VERSION,
+    name: project.name,
+    settings: project.settings,
+    media,
+    audio: audioFile ? fileInfo(audioFile) : null,
+    image: imageFile ? fileInfo(imageFile) : null,
+    fonts: fonts.map(({ family, file }) => ({ family, ...fileInfo(file) })),
+    backgroundVideo: backgroundVideoFile ? fileInfo(backgroundVideoFile) : null,
+    slides: slideFiles.map(fileInfo),
+    instrumental: instrumentalFile ? fileInfo(instrumentalFile) : null,
+    guideVocal: guideVocalFile ? fileInfo(guideVocalFile) : null,
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const headerLength = new Uint8Array(4);
+  new DataView(headerLength.buffer).setUint32(0, headerBytes.length, true);
+
+  const parts: BlobPart[] = [new TextEncoder().encode(PROJECT_ARCHIVE_MAGIC), headerLength, headerBytes];
+  if (audioFile) parts.push(audioFile);
+  if (imageFile) parts.push(imageFile);
+  parts.push(...fonts.map(font => font.file));
+  if (backgroundVideoFile) parts.push(backgroundVideoFile);
+  parts.push(...slideFiles);
+  if (instrumentalFile) parts.push(instrumentalFile);
+  if (guideVocalFile) parts.push(guideVocalFile);
+  return new Blob(parts, { type: 'application/octet-stream' });
+};
+
+const DAMAGED_ARCHIVE = 'This LyricFlow project file is damaged.';
+
+const isArchiveFileInfo = (value: unknown): value is ArchiveFileInfo =>
+  isRecord(value) && typeof value.type === 'string' && Number.isInteger(value.size) && (value.size as number) >= 0;
+
+const isArchiveFontInfo = (value: unknown): value is ArchiveFileInfo & { family: string } =>
+  isRecord(value) && typeof value.family === 'string' && isArchiveFileInfo(value);
+
+const isSongTime = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// A file entry that may be left out (null or missing) but must be well-formed when present
+const readOptionalFileInfo = (value: unknown): ArchiveFileInfo | null => {
+  if (value === undefined || value === null) return null;
+  if (!isArchiveFileInfo(value)) throw new Error(DAMAGED_ARCHIVE);
+  return value;
+};
+
+const readFileInfoList = <T extends ArchiveFileInfo,>(value: unknown, isInfo: (item: unknown) => item is T): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every(isInfo)) throw new Error(DAMAGED_ARCHIVE);
+  return value;
+};
+
+/**
+ * Lyrics from a project file. Lines without a time or text reject the file;
+ * optional fields that do not check out are dropped from their line.
+ */
+const validateLyrics = (raw: unknown): LyricLine[] => {
+  if (!Array.isArray(raw)) throw new Error('The project lyrics are damaged.');
+  return raw.map((line: unknown, i): LyricLine => {
+    if (!isRecord(line) || !isSongTime(line.time) || typeof line.text !== 'string') {
+      throw new Error(`Line ${i + 1} of the project lyrics is damaged.`);
     }
-    
-    if (absDist > 1.2) {
-        blur = (absDist - 1.2) * 2;
+    const result: LyricLine = { time: line.time, text: line.text };
+    if (isSongTime(line.endTime)) result.endTime = line.endTime;
+    const { words, translations, singer } = line;
+    if (Array.isArray(words) && words.length > 0
+      && words.every(w => isRecord(w) && isSongTime(w.time) && isSongTime(w.endTime) && typeof w.text === 'string')
+      && words.map(w => w.text).join('') === line.text) {
+      result.words = words.map(({ time, endTime, text }) => ({ time, endTime, text }));
     }
+    if (Array.isArray(translations) && translations.every(t => typeof t === 'string')) result.translations = translations;
+    if (singer === 'v1' || singer === 'v2' || singer === 'both') result.singer = singer;
+    return result;
+  }).sort((a, b) => a.time - b.time);
+};
 
-    // Apply Global Fade In for Lyrics
-    alpha = alpha * lyricsOpacity;
+const validateMetadata = (raw: unknown): LrcMetadata => {
+  if (!isRecord(raw)) return {};
+  const metadata: LrcMetadata = {};
+  for (const key of ['title', 'artist', 'album', 'author'] as const) {
+    if (typeof raw[key] === 'string') metadata[key] = raw[key];
+  }
+  return metadata;
+};
 
-    if (alpha <= 0.01) continue;
+/**
+ * Reads a `.lyricflow` file back into a project with a fresh id.
+ */
+const importProjectArchive = async (file: Blob): Promise<Project> => {
+  const prefixLength = PROJECT_ARCHIVE_MAGIC.length + 4;
+  const prefix = new Uint8Array(await file.slice(0, prefixLength).arrayBuffer());
+  if (prefix.length < prefixLength || new TextDecoder().decode(prefix.subarray(0, PROJECT_ARCHIVE_MAGIC.length)) !== PROJECT_ARCHIVE_MAGIC) {
+    throw new Error('This is not a LyricFlow project file.');
+  }
+  const headerLength = new DataView(prefix.buffer).getUint32(PROJECT_ARCHIVE_MAGIC.length, true);
+  if (headerLength > file.size - prefixLength) throw new Error('This LyricFlow project file is damaged.');
 
-    ctx.save();
-    ctx.translate(rightPanelStart, yPos);
-    ctx.scale(scale, scale);
-    
-    if (blur > 0) ctx.filter = `blur(${blur}px)`;
-    ctx.globalAlpha = alpha;
-    ctx.fillStyle = color;
-    
-    const fontWeight = absDist < 0.4 ? '700' : '600';
-    ctx.font = `${fontWeight} ${baseFontSize}px Inter, sans-serif`;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.slice(prefixLength, prefixLength + headerLength).text());
+  } catch {
+    throw new Error('This LyricFlow project file is damaged.');
+  }
+  if (!isRecord(parsed) || typeof parsed.version !== 'number' || parsed.version < 1 || !isRecord(parsed.media)) {
+    throw new Error('This is not a LyricFlow project file.');
+  }
+  if (parsed.version > PROJECT_ARCHIVE_VERSION) {
+    throw new Error('This project was saved by a newer version of LyricFlow.');
+  }
+  const { media } = parsed;
 
-    // Glow
-    if (absDist < 0.4) {
-        ctx.shadowColor = settings.primaryColor;
-        ctx.shadowBlur = settings.glowIntensity * (1 - absDist/0.4);
+  // Media files follow the header in order
+  let offset = prefixLength + headerLength;
+  const readFile = (info: ArchiveFileInfo) => {
+    if (offset + info.size > file.size) throw new Error(DAMAGED_ARCHIVE);
+    const blob = file.slice(offset, offset + info.size, info.type);
+    offset += info.size;
+    return blob;
+  };
+  const readOptionalFile = (value: unknown) => {
+    const info = readOptionalFileInfo(value);
+    return info ? readFile(info) : null;
+  };
+  const audioFile = readOptionalFile(parsed.audio);
+  const imageFile = readOptionalFile(parsed.image);
+  const fonts = readFileInfoList(parsed.fonts, isArchiveFontInfo).map(info => ({ family: sanitizeFontFamily(info.family), file: readFile(info) }));
+  const backgroundVideoFile = readOptionalFile(parsed.backgroundVideo);
+  const slideFiles = readFileInfoList(parsed.slides, isArchiveFileInfo).map(readFile);
+  const instrumentalFile = readOptionalFile(parsed.instrumental);
+  const guideVocalFile = readOptionalFile(parsed.guideVocal);
+
+  return {
+    id: crypto.randomUUID(),
+    name: typeof parsed.name === 'string' ? parsed.name : '',
+    updatedAt: Date.now(),
+    media: {
+      lyrics: validateLyrics(media.lyrics),
+      metadata: validateMetadata(media.metadata),
+      fileName: typeof media.fileName === 'string' && media.fileName.trim() ? media.fileName : EMPTY_MEDIA.fileName,
+      audioFile, imageFile, backgroundVideoFile, slideFiles, fonts, instrumentalFile, guideVocalFile,
+    },
+    // Fields added since the project was saved keep their defaults
+    settings: { ...DEFAULT_SETTINGS, ...validateSettings(parsed.settings) },
+  };
+};
+
+// --- UTILS: STYLE PRESETS ---
+
+// The look of a video, without anything song or output specific
+export type StyleSettings = Pick<AppSettings,
+  | 'primaryColor' | 'secondaryColor' | 'backgroundColor' | 'fontSize' | 'glowIntensity'
+  | 'lyricsXOffset' | 'introDuration' | 'outroDuration' | 'showMetadata' | 'template'
+  | 'transition' | 'transitionEasing' | 'transitionDuration' | 'visibleLines' | 'neighborFade' | 'neighborBlur'
+  | 'lyricsFont' | 'titleFont' | 'fontWeight' | 'titleFontWeight' | 'letterSpacing' | 'uppercase' | 'textOutline' | 'outlineColor'
+  | 'showTranslations' | 'translationScale' | 'translationColor'
+  | 'visualizer' | 'audioReactive' | 'reactiveStrength' | 'breakIndicator' | 'breakThreshold'
+  | 'singer1Color' | 'singer2Color' | 'bothSingersColor' | 'duetAlignment'
+  | 'bokehEnabled' | 'bokehAutoColor' | 'bokehColor' | 'bokehAutoSize' | 'bokehScale'
+  | 'backgroundSource' | 'backgroundBlur' | 'backgroundDim' | 'backgroundSaturation'>;
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  style: Partial<StyleSettings>; // Missing fields keep the current value when applied
+}
+
+type StyleFieldSchema =
+  | { type: 'color' }
+  | { type: 'font' }
+  | { type: 'boolean' }
+  | { type: 'number'; min: number; max: number }
+  | { type: 'enum'; values: readonly string[] };
+
+type SettingsFieldSchema = StyleFieldSchema | { type: 'text' };
+
+// Same ranges as the Appearance controls
+const STYLE_SCHEMA: Record<keyof StyleSettings, StyleFieldSchema> = {
+  primaryColor: { type: 'color' },
+  secondaryColor: { type: 'color' },
+  backgroundColor: { type: 'color' },
+  fontSize: { type: 'number', min: 30, max: 80 },
+  glowIntensity: { type: 'number', min: 0, max: 50 },
+  lyricsXOffset: { type: 'number', min: 30, max: 70 },
+  introDuration: { type: 'number', min: 0, max: 10 },
+  outroDuration: { type: 'number', min: 0, max: 15 },
+  showMetadata: { type: 'boolean' },
+  template: { type: 'enum', values: ['split', 'focus', 'karaoke', 'subtitle'] },
+  transition: { type: 'enum', values: ['scroll', 'fade', 'slide', 'zoom', 'typewriter', 'bounce'] },
+  transitionEasing: { type: 'enum', values: ['linear', 'easeOut', 'easeInOut', 'expo', 'back'] },
+  transitionDuration: { type: 'number', min: 0.1, max: 2 },
+  visibleLines: { type: 'number', min: 1, max: 8 },
+  neighborFade: { type: 'number', min: 0, max: 100 },
+  neighborBlur: { type: 'number', min: 0, max: 100 },
+  lyricsFont: { type: 'font' },
+  titleFont: { type: 'font' },
+  fontWeight: { type: 'number', min: 100, max: 900 },
+  titleFontWeight: { type: 'number', min: 100, max: 900 },
+  letterSpacing: { type: 'number', min: -5, max: 20 },
+  uppercase: { type: 'boolean' },
+  textOutline: { type: 'number', min: 0, max: 10 },
+  outlineColor: { type: 'color' },
+  showTranslations: { type: 'boolean' },
+  translationScale: { type: 'number', min: 30, max: 100 },
+  translationColor: { type: 'color' },
+  visualizer: { type: 'enum', values: ['none', 'bars', 'circle'] },
+  audioReactive: { type: 'boolean' },
+  reactiveStrength: { type: 'number', min: 0, max: 100 },
+  breakIndicator: { type: 'enum', values: ['none', 'note', 'bar', 'dots'] },
+  breakThreshold: { type: 'number', min: 2, max: 30 },
+  singer1Color: { type: 'color' },
+  singer2Color: { type: 'color' },
+  bothSingersColor: { type: 'color' },
+  duetAlignment: { type: 'boolean' },
+  bokehEnabled: { type: 'boolean' },
+  bokehAutoColor: { type: 'boolean' },
+  bokehColor: { type: 'color' },
+  bokehAutoSize: { type: 'boolean' },
+  bokehScale: { type: 'number', min: 0, max: 100 },
+  backgroundSource: { type: 'enum', values: ['cover', 'kenBurns', 'slideshow', 'video'] },
+  backgroundBlur: { type: 'number', min: 0, max: 100 },
+  backgroundDim: { type: 'number', min: 0, max: 100 },
+  backgroundSaturation: { type: 'number', min: 0, max: 200 },
+};
+
+const STYLE_KEYS = Object.keys(STYLE_SCHEMA) as (keyof StyleSettings)[];
+
+// The song and output specific rest of the settings, checked when a project file is opened
+const PROJECT_SETTINGS_SCHEMA: Record<Exclude<keyof AppSettings, keyof StyleSettings>, SettingsFieldSchema> = {
+  songTitle: { type: 'text' },
+  lyricsCredit: { type: 'text' },
+  artCredit: { type: 'text' },
+  endCardText: { type: 'text' },
+  audioMode: { type: 'enum', values: ['original', 'vocalReduction', 'stems'] },
+  vocalReduction: { type: 'number', min: 0, max: 100 },
+  vocalBassCutoff: { type: 'number', min: 40, max: 400 },
+  instrumentalLevel: { type: 'number', min: 0, max: 100 },
+  guideVocalLevel: { type: 'number', min: 0, max: 100 },
+  clipEnabled: { type: 'boolean' },
+  clipStart: { type: 'number', min: 0, max: Infinity },
+  clipEnd: { type: 'number', min: 0, max: Infinity },
+  clipIntro: { type: 'boolean' },
+  videoWidth: { type: 'number', min: 16, max: 3840 },
+  videoHeight: { type: 'number', min: 16, max: 3840 },
+};
+
+const PRESET_FILE_FORMAT = 'lyricflow-presets';
+const PRESET_FILE_VERSION = 1;
+const PRESET_STORAGE_KEY = 'lyricflow-presets';
+
+interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: { name: string; style: Partial<StyleSettings> }[];
+}
+
+/**
+ * Upgrades a parsed preset file one version at a time. Version 0 is a bare
+ * settings object (e.g. copied out of a project), imported as a single preset.
+ */
+const PRESET_MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (data) => {
+    // Any other JSON would otherwise import as a preset with every field at its default
+    if (!STYLE_KEYS.some(key => key in data)) {
+      throw new Error('The preset file is not a LyricFlow preset file.');
+    }
+    return { format: PRESET_FILE_FORMAT, version: 1, presets: [{ name: 'Imported', style: data }] };
+  },
+};
+
+const isValidSettingValue = (schema: SettingsFieldSchema, value: unknown): boolean => {
+  switch (schema.type) {
+    case 'text': return typeof value === 'string';
+    case 'color': return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+    case 'font': return typeof value === 'string' && value.length > 0 && value === sanitizeFontFamily(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'number': return typeof value === 'number' && value >= schema.min && value <= schema.max;
+    case 'enum': return schema.values.includes(value as string);
+  }
+};
+
+// Picks the style fields out of any settings-like object, rejecting invalid values
+const validateStyle = (raw: unknown, presetName: string): Partial<StyleSettings> => {
+  if (typeof raw !== 'object' || raw === null) throw new Error(`Preset "${presetName}" has no style.`);
+  const style: Record<string, unknown> = {};
+  for (const key of STYLE_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+    if (!isValidSettingValue(STYLE_SCHEMA[key], value)) {
+      throw new Error(`Preset "${presetName}" has an invalid ${key}: ${JSON.stringify(value)}.`);
+    }
+    style[key] = value;
+  }
+  return style as Partial<StyleSettings>;
+};
+
+// All settings of a project file; missing fields are left out so they keep their defaults
+const validateSettings = (raw: unknown): Partial<AppSettings> => {
+  if (!isRecord(raw)) throw new Error('The project has no settings.');
+  const settings: Record<string, unknown> = {};
+  for (const [key, schema] of Object.entries<SettingsFieldSchema>({ ...STYLE_SCHEMA, ...PROJECT_SETTINGS_SCHEMA })) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (!isValidSettingValue(schema, value)) {
+      throw new Error(`The project has an invalid ${key}: ${JSON.stringify(value)}.`);
     }
+    settings[key] = value;
+  }
+  return settings as Partial<AppSettings>;
+};
+
+const getStyleSettings = (settings: AppSettings): StyleSettings =>
+  Object.fromEntries(STYLE_KEYS.map(key => [key, settings[key]])) as StyleSettings;
+
+const serializePresets = (presets: StylePreset[]): string => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, style }) => ({ name, style })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses a preset file (or saved preset library), migrating older versions and
+ * validating every preset. Throws with a readable message on bad input.
+ */
+const parsePresets = (json: string): StylePreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The preset file is not valid JSON.');
+  }
+  if (!isRecord(parsed)) {
+    throw new Error('The preset file is not a LyricFlow preset file.');
+  }
 
-    // Wrapping Logic
-    const wrappedLines = getWrappedLines(ctx, line.text, rightPanelWidth / scale);
-    
-    // Draw lines centered vertically around the logical Y line position
-    const totalHeight = (wrappedLines.length - 1) * (baseFontSize * 1.1);
-    const startY = -totalHeight / 2;
+  let data = parsed;
+  let version = data.format === PRESET_FILE_FORMAT ? Number(data.version) : 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error('The preset file is not a LyricFlow preset file.');
+  }
+  if (version > PRESET_FILE_VERSION) {
+    throw new Error('The presets were saved by a newer version of LyricFlow.');
+  }
+  while (version < PRESET_FILE_VERSION) {
+    data = PRESET_MIGRATIONS[version](data);
+    version = Number(data.version);
+  }
 
-    wrappedLines.forEach((txt, lineIdx) => {
-        const lineY = startY + (lineIdx * (baseFontSize * 1.1));
-        ctx.fillText(txt, 0, lineY);
-    });
+  if (!Array.isArray(data.presets)) throw new Error('The preset file contains no presets.');
+  return data.presets.map((preset: unknown, i: number) => {
+    const rawName = isRecord(preset) && typeof preset.name === 'string' ? preset.name.trim() : '';
+    const name = rawName || `Preset ${i + 1}`;
+    return { id: crypto.randomUUID(), name, style: validateStyle(isRecord(preset) ? preset.style : undefined, name) };
+  });
+};
 
-    ctx.restore();
+const loadStoredPresets = (): StylePreset[] => {
+  const json = localStorage.getItem(PRESET_STORAGE_KEY);
+  if (!json) return [];
+  try {
+    return parsePresets(json);
+  } catch (e) {
+    console.warn("Could not load saved presets", e);
+    return [];
   }
 };
 
 // --- APP COMPONENT ---
 
+// Empty Project
+const EMPTY_MEDIA: MediaState = {
+  audioUrl: null,
+  imageUrl: null,
+  audioFile: null,
+  imageFile: null,
+  instrumentalUrl: null,
+  guideVocalUrl: null,
+  instrumentalFile: null,
+  guideVocalFile: null,
+  backgroundVideoFile: null,
+  slideFiles: [],
+  fonts: [],
+  lyrics: [],
+  metadata: {},
+  fileName: 'karaoke-video'
+};
+
+// Background Looks: the split and subtitle layouts only need a soft backdrop, while
+// focus and karaoke show the cover full-frame and keep it recognisable
+type BackgroundLook = Pick<AppSettings, 'backgroundBlur' | 'backgroundDim' | 'backgroundSaturation'>;
+const BACKDROP_LOOK: BackgroundLook = { backgroundBlur: 60, backgroundDim: 85, backgroundSaturation: 150 };
+const COVER_LOOK: BackgroundLook = { backgroundBlur: 12, backgroundDim: 45, backgroundSaturation: 120 };
+
+const getBackgroundLook = (template: LayoutTemplate): BackgroundLook =>
+  template === 'focus' || template === 'karaoke' ? COVER_LOOK : BACKDROP_LOOK;
+
+// Switches the template; a background still at the old layout's look moves to the new one
+const applyTemplate = (settings: AppSettings, template: LayoutTemplate): AppSettings => {
+  const look = getBackgroundLook(settings.template);
+  const untouched = (Object.keys(look) as (keyof BackgroundLook)[]).every(key => settings[key] === look[key]);
+  return { ...settings, template, ...(untouched ? getBackgroundLook(template) : {}) };
+};
+
 // Default Settings
 const DEFAULT_SETTINGS: AppSettings = {
   primaryColor: '#38bdf8', // Tailwind Sky 400
@@ -451,6 +3939,67 @@ const DEFAULT_SETTINGS: AppSettings = {
   lyricsXOffset: 45, // 45% from left
   introDuration: 3, // Seconds
   songTitle: '',
+  showMetadata: true,
+  template: 'split',
+
+  // Transition Defaults (expo over 1.1s matches the original ~0.16s scroll spring)
+  transition: 'scroll',
+  transitionEasing: 'expo',
+  transitionDuration: 1.1,
+  visibleLines: 5,
+  neighborFade: 40,
+  neighborBlur: 50,
+
+  // Typography Defaults
+  lyricsFont: 'Inter',
+  titleFont: 'Inter',
+  fontWeight: 700,
+  titleFontWeight: 700,
+  letterSpacing: 0,
+  uppercase: false,
+  textOutline: 0,
+  outlineColor: '#020617', // Tailwind Slate 950
+
+  // Translation Defaults
+  showTranslations: true,
+  translationScale: 60,
+  translationColor: '#cbd5e1', // Tailwind Slate 300
+
+  // Audio Reactive Defaults
+  visualizer: 'none',
+  audioReactive: false,
+  reactiveStrength: 50,
+
+  // Break Indicator Defaults
+  breakIndicator: 'dots',
+  breakThreshold: 6, // Seconds
+
+  // Duet Defaults
+  singer1Color: '#38bdf8', // Tailwind Sky 400
+  singer2Color: '#f472b6', // Tailwind Pink 400
+  bothSingersColor: '#a78bfa', // Tailwind Violet 400
+  duetAlignment: true,
+
+  // Outro Defaults
+  outroDuration: 5, // Seconds
+  lyricsCredit: '',
+  artCredit: '',
+  endCardText: '',
+
+  // Audio Defaults
+  audioMode: 'original',
+  vocalReduction: 90,
+  vocalBassCutoff: 150, // Hz
+  instrumentalLevel: 100,
+  guideVocalLevel: 30,
+
+  // Clip Defaults
+  clipEnabled: false,
+  clipStart: 0,
+  clipEnd: 30, // Seconds
+  clipIntro: false,
+
+  // Output Defaults
   videoWidth: 1920,
   videoHeight: 1080,
   
@@ -460,139 +4009,543 @@ const DEFAULT_SETTINGS: AppSettings = {
   bokehColor: '#38bdf8',
   bokehAutoSize: true,
   bokehScale: 50,
+
+  // Background Defaults
+  backgroundSource: 'cover',
+  ...BACKDROP_LOOK,
 };
 
+// Built-in Style Presets
+const BUILT_IN_PRESETS: StylePreset[] = [
+  { id: 'builtin-default', name: 'Default', builtIn: true, style: getStyleSettings(DEFAULT_SETTINGS) },
+  { id: 'builtin-neon', name: 'Neon Night', builtIn: true, style: {
+    ...getStyleSettings(DEFAULT_SETTINGS),
+    primaryColor: '#f472b6', secondaryColor: '#818cf8', backgroundColor: '#1e1b4b',
+    glowIntensity: 45, bokehEnabled: true, bokehAutoColor: true, audioReactive: true, visualizer: 'circle',
+  } },
+  { id: 'builtin-minimal', name: 'Minimal', builtIn: true, style: {
+    ...getStyleSettings(DEFAULT_SETTINGS),
+    primaryColor: '#ffffff', secondaryColor: '#64748b', backgroundColor: '#000000',
+    glowIntensity: 0, template: 'focus', bokehEnabled: false, introDuration: 2, ...COVER_LOOK,
+  } },
+  { id: 'builtin-karaoke', name: 'Karaoke Night', builtIn: true, style: {
+    ...getStyleSettings(DEFAULT_SETTINGS),
+    primaryColor: '#fbbf24', secondaryColor: '#f8fafc', backgroundColor: '#0f172a',
+    fontSize: 56, glowIntensity: 10, template: 'karaoke', visualizer: 'bars',
+    ...COVER_LOOK, backgroundSource: 'kenBurns',
+  } },
+  { id: 'builtin-vinyl', name: 'Warm Vinyl', builtIn: true, style: {
+    ...getStyleSettings(DEFAULT_SETTINGS),
+    primaryColor: '#fdba74', secondaryColor: '#a8a29e', backgroundColor: '#292524',
+    glowIntensity: 15, bokehEnabled: true, bokehAutoColor: false, bokehColor: '#f59e0b', bokehAutoSize: false, bokehScale: 30,
+  } },
+];
+
+// Output Size Presets, grouped by aspect ratio (720p / 1080p / 4K classes by short side)
+const VIDEO_FORMATS: { aspect: string; label: string; sizes: { label: string; width: number; height: number }[] }[] = [
+  { aspect: '16:9', label: 'Landscape', sizes: [
+    { label: '720p', width: 1280, height: 720 },
+    { label: '1080p', width: 1920, height: 1080 },
+    { label: '4K', width: 3840, height: 2160 },
+  ] },
+  { aspect: '9:16', label: 'Vertical', sizes: [
+    { label: '720p', width: 720, height: 1280 },
+    { label: '1080p', width: 1080, height: 1920 },
+    { label: '4K', width: 2160, height: 3840 },
+  ] },
+  { aspect: '1:1', label: 'Square', sizes: [
+    { label: '720p', width: 720, height: 720 },
+    { label: '1080p', width: 1080, height: 1080 },
+    { label: '4K', width: 2160, height: 2160 },
+  ] },
+  { aspect: '4:5', label: 'Portrait', sizes: [
+    { label: '720p', width: 720, height: 900 },
+    { label: '1080p', width: 1080, height: 1350 },
+    { label: '4K', width: 2160, height: 2700 },
+  ] },
+];
+
+// Lyric Transitions
+const LYRIC_TRANSITIONS: { id: LyricTransition; label: string }[] = [
+  { id: 'scroll', label: 'Scroll' },
+  { id: 'fade', label: 'Fade' },
+  { id: 'slide', label: 'Slide' },
+  { id: 'zoom', label: 'Zoom' },
+  { id: 'typewriter', label: 'Type' },
+  { id: 'bounce', label: 'Bounce' },
+];
+
+const TRANSITION_EASINGS: { id: TransitionEasing; label: string }[] = [
+  { id: 'expo', label: 'Smooth' },
+  { id: 'easeOut', label: 'Ease Out' },
+  { id: 'easeInOut', label: 'Ease In-Out' },
+  { id: 'back', label: 'Overshoot' },
+  { id: 'linear', label: 'Linear' },
+];
+
+// Spectrum Visualizer Styles
+const VISUALIZER_STYLES: { id: VisualizerStyle; label: string }[] = [
+  { id: 'none', label: 'Off' },
+  { id: 'bars', label: 'Bars' },
+  { id: 'circle', label: 'Ring' },
+];
+
+// Audio Modes
+const AUDIO_MODES: { id: AudioMode; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'vocalReduction', label: 'Reduce Vocals' },
+  { id: 'stems', label: 'Stems' },
+];
+
+// Background Sources
+const BACKGROUND_SOURCES: { id: BackgroundSource; label: string }[] = [
+  { id: 'cover', label: 'Cover' },
+  { id: 'kenBurns', label: 'Ken Burns' },
+  { id: 'slideshow', label: 'Slideshow' },
+  { id: 'video', label: 'Video' },
+];
+
+// Break Indicators
+const BREAK_INDICATORS: { id: BreakIndicatorStyle; label: string }[] = [
+  { id: 'none', label: 'Off' },
+  { id: 'note', label: '\u266A' },
+  { id: 'bar', label: 'Bar' },
+  { id: 'dots', label: 'Dots' },
+];
+
+// Layout Templates
+const LAYOUT_TEMPLATES: { id: LayoutTemplate; label: string; description: string }[] = [
+  { id: 'split', label: 'Split', description: 'Cover art beside a scrolling lyric list' },
+  { id: 'focus', label: 'Focus', description: 'Cover as background, lyrics centered' },
+  { id: 'karaoke', label: 'Karaoke', description: 'Two alternating lines at the bottom' },
+  { id: 'subtitle', label: 'Subtitle', description: 'Current line only, lower third' },
+];
+
+const findVideoFormat = (width: number, height: number) =>
+  VIDEO_FORMATS.find(f => f.sizes.some(size => size.width === width && size.height === height));
+
 function App() {
   // State
-  const [media, setMedia] = useState<MediaState>({
-    audioUrl: null,
-    imageUrl: null,
-    lyrics: [],
-    fileName: 'karaoke-video'
-  });
+  const [media, setMedia] = useState<MediaState>(EMPTY_MEDIA);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
-  const [recordingPhase, setRecordingPhase] = useState<'idle' | 'intro' | 'recording'>('idle');
+  const [recordingPhase, setRecordingPhase] = useState<'idle' | 'intro' | 'recording' | 'outro'>('idle');
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [downloadExtension, setDownloadExtension] = useState<'webm' | 'mp4'>('webm');
+  const [exportProgress, setExportProgress] = useState<number | null>(null); // Offline export, 0 to 1
+
+  // Palette State
+  const [coverPalettes, setCoverPalettes] = useState<ThemePalette[]>([]);
+
+  // Project State
+  const [projectId, setProjectId] = useState(() => crypto.randomUUID());
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+
+  // Preset State
+  const [customPresets, setCustomPresets] = useState<StylePreset[]>(loadStoredPresets);
+  const [presetName, setPresetName] = useState('');
+
+  // Font State
+  const [fontsReady, setFontsReady] = useState(false);
+  const [fontError, setFontError] = useState<string | null>(null); // Keeps export disabled until the fonts are fixed
+  const [installedFonts, setInstalledFonts] = useState<string[]>([]);
+
+  // Audio State
+  const [monitorOriginal, setMonitorOriginal] = useState(false); // A/B: hear the song without vocal reduction
+  const songUrl = getSongUrl(media, settings);
+
+  // Tap Sync State
+  const [syncMode, setSyncMode] = useState(false);
+  const [syncText, setSyncText] = useState('');
+  const [syncStamps, setSyncStamps] = useState<number[]>([]);
+  const syncLines = splitPlainLyrics(syncText);
+  const [onsets, setOnsets] = useState<Onset[] | null>(null); // Vocal onsets, detected while Tap Sync is on
+  const [snapToOnsets, setSnapToOnsets] = useState(true);
+  const [suggestedStamps, setSuggestedStamps] = useState<number[]>([]); // Proposed times for the untimed lines
+  // The guide vocal has the clearest onsets; the instrumental has none to find
+  const onsetUrl = settings.audioMode === 'stems' && media.guideVocalUrl ? media.guideVocalUrl : songUrl;
+
+  // Timing Correction State
+  const [timingOffset, setTimingOffset] = useState('');
+  const [retimeAnchors, setRetimeAnchors] = useState<(RetimeAnchor | null)[]>([null, null]);
+  const [retimeExtrapolate, setRetimeExtrapolate] = useState(false); // Also move the lines outside the anchors
+
+  // Timeline State
+  const [songBuffer, setSongBuffer] = useState<AudioBuffer | null>(null); // Decoded song, shared by the waveform and the analysis
+  const [waveform, setWaveform] = useState<WaveformPeaks | null>(null);
+  const [timelineZoom, setTimelineZoom] = useState(1);
+  const activeLineIndex = getActiveIndex(media.lyrics, currentTime);
 
   // Refs
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const guideAudioRef = useRef<HTMLAudioElement | null>(null); // Guide vocal, kept in step with audioRef
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const seekBarRef = useRef<HTMLDivElement | null>(null);
   const imageRef = useRef<HTMLImageElement | null>(null);
   const requestRef = useRef<number | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const audioAnalysisRef = useRef<AudioAnalysis | null>(null);
+  const mediaRef = useRef<MediaState>(EMPTY_MEDIA); // Latest media for async handlers
+  const savedFilesRef = useRef<{ projectId: string; files: ProjectFiles } | null>(null); // Blobs of the last autosave
+  const slidesRef = useRef<HTMLImageElement[]>([]);
+  const backgroundVideoRef = useRef<HTMLVideoElement | null>(null);
+  const timelineRef = useRef<HTMLDivElement | null>(null); // Scrolls horizontally when zoomed in
+  const timelineTrackRef = useRef<HTMLDivElement | null>(null);
+  const waveformCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const markerDragRef = useRef<{ index: number; grabOffset: number; startX: number; moved: boolean } | null>(null);
   
   // Audio API Refs
   const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
-  const audioDestNodeRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const audioGraphRef = useRef<AudioGraph | null>(null);
   const silenceOscRef = useRef<OscillatorNode | null>(null);
   
   // Animation State
-  const smoothIndexRef = useRef<number>(0);
-  const introStartTimeRef = useRef<number>(0); // Timestamp when intro started
+  const introStartTimeRef = useRef<number>(0); // performance.now() when the recorded intro started
+  const outroStartTimeRef = useRef<number>(0); // performance.now() when the recorded outro started
 
   // Helpers to handle file uploads
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, type: 'audio' | 'image' | 'lrc') => {
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, type: 'audio' | 'image' | 'lrc' | 'translation' | 'font' | 'video' | 'slides' | 'instrumental' | 'guideVocal') => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     if (type === 'audio') {
       const url = URL.createObjectURL(file);
       const fileName = file.name.replace(/\.[^/.]+$/, "");
-      setMedia(prev => ({ ...prev, audioUrl: url, fileName }));
-      setSettings(prev => ({ ...prev, songTitle: fileName })); // Default title to filename
+      setMedia(prev => ({ ...prev, audioUrl: url, audioFile: file, fileName }));
+      // Default title to filename unless the lyrics file named the song
+      setSettings(prev => ({ ...prev, songTitle: media.metadata.title || fileName }));
     } else if (type === 'image') {
       const url = URL.createObjectURL(file);
       const img = new Image();
       img.src = url;
       img.onload = () => {
         imageRef.current = img;
-        setMedia(prev => ({ ...prev, imageUrl: url }));
+        setMedia(prev => ({ ...prev, imageUrl: url, imageFile: file }));
+        setCoverPalettes([]);
       };
     } else if (type === 'lrc') {
       const reader = new FileReader();
       reader.onload = (ev) => {
         const text = ev.target?.result as string;
-        const parsedLyrics = parseLrc(text);
-        setMedia(prev => ({ ...prev, lyrics: parsedLyrics }));
-        smoothIndexRef.current = 0;
+        const { lyrics, metadata } = parseLyricsFile(file.name, text);
+        setMedia(prev => ({ ...prev, lyrics, metadata }));
+        const { title } = metadata;
+        if (title) setSettings(prev => ({ ...prev, songTitle: title }));
+      };
+      reader.readAsText(file);
+    } else if (type === 'translation') {
+      const reader = new FileReader();
+      reader.onload = (ev) => {
+        const text = ev.target?.result as string;
+        const { lyrics: translated } = parseLyricsFile(file.name, text);
+        setMedia(prev => ({ ...prev, lyrics: mergeTranslations(prev.lyrics, translated) }));
       };
       reader.readAsText(file);
+    } else if (type === 'font') {
+      const family = sanitizeFontFamily(file.name.replace(/\.[^/.]+$/, ""));
+      const font: CustomFont = { family, file };
+      registerCustomFont(font).then(() => {
+        setMedia(prev => ({ ...prev, fonts: [...prev.fonts.filter(f => f.family !== family), font] }));
+        setSettings(prev => ({ ...prev, lyricsFont: family }));
+      }).catch(err => {
+        console.error("Font load error", err);
+        alert("Could not load font file.");
+      });
+    } else if (type === 'instrumental') {
+      setMedia(prev => ({ ...prev, instrumentalUrl: URL.createObjectURL(file), instrumentalFile: file }));
+    } else if (type === 'guideVocal') {
+      setMedia(prev => ({ ...prev, guideVocalUrl: URL.createObjectURL(file), guideVocalFile: file }));
+    } else if (type === 'video') {
+      setMedia(prev => ({ ...prev, backgroundVideoFile: file }));
+      setSettings(prev => ({ ...prev, backgroundSource: 'video' }));
+    } else if (type === 'slides') {
+      const files = Array.from(e.target.files ?? []);
+      setMedia(prev => ({ ...prev, slideFiles: [...prev.slideFiles, ...files] }));
+      setSettings(prev => ({ ...prev, backgroundSource: 'slideshow' }));
+    }
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  // Download the current lyrics as a timed text file
+  const exportLyrics = (format: LyricsExportFormat) => {
+    const metadata = { ...media.metadata, title: settings.songTitle || media.metadata.title };
+    const blob = new Blob([formatLyrics(format, media.lyrics, metadata)], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${media.fileName}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Projects: autosaved to IndexedDB, shareable as .lyricflow archives
+  const buildProject = (): Project => {
+    const { audioUrl, imageUrl, instrumentalUrl, guideVocalUrl, ...stored } = media;
+    return { id: projectId, name: settings.songTitle || media.fileName, updatedAt: Date.now(), media: stored, settings };
+  };
+
+  const refreshRecentProjects = () => {
+    listRecentProjects().then(setRecentProjects).catch(e => console.warn("Could not list projects", e));
+  };
+
+  const openProject = (project: Project) => {
+    const { audioFile, imageFile, instrumentalFile, guideVocalFile } = project.media;
+    const imageUrl = imageFile ? URL.createObjectURL(imageFile) : null;
+    imageRef.current = null;
+    if (imageUrl) {
+      const img = new Image();
+      img.src = imageUrl;
+      img.onload = () => { imageRef.current = img; };
+    }
+    const nextMedia: MediaState = {
+      // Fields added since the project was saved keep their defaults
+      ...EMPTY_MEDIA,
+      ...project.media,
+      audioUrl: audioFile ? URL.createObjectURL(audioFile) : null,
+      imageUrl,
+      instrumentalUrl: instrumentalFile ? URL.createObjectURL(instrumentalFile) : null,
+      guideVocalUrl: guideVocalFile ? URL.createObjectURL(guideVocalFile) : null,
+    };
+    // The blob URLs of the project being replaced are not used anymore
+    const { audioUrl, imageUrl: oldImageUrl, instrumentalUrl, guideVocalUrl } = mediaRef.current;
+    setMedia(nextMedia);
+    [audioUrl, oldImageUrl, instrumentalUrl, guideVocalUrl].forEach(url => url && URL.revokeObjectURL(url));
+    setSettings({ ...DEFAULT_SETTINGS, ...project.settings });
+    setProjectId(project.id);
+    savedFilesRef.current = { projectId: project.id, files: getProjectFiles(project) }; // Opened projects are stored already
+    setCoverPalettes([]);
+    setIsPlaying(false);
+    setDownloadUrl(null);
+  };
+
+  const newProject = () => {
+    openProject({ id: crypto.randomUUID(), name: '', updatedAt: Date.now(), media: EMPTY_MEDIA, settings: DEFAULT_SETTINGS });
+  };
+
+  const openRecentProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      if (project) openProject(project);
+      else alert("This project is no longer saved.");
+    } catch (err) {
+      console.error("Project load error", err);
+      alert("Could not open project.");
+    }
+  };
+
+  const removeRecentProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+    } catch (err) {
+      console.error("Project delete error", err);
+      alert("Could not delete project.");
+    }
+    refreshRecentProjects();
+  };
+
+  const downloadProjectArchive = () => {
+    const project = buildProject();
+    const url = URL.createObjectURL(exportProjectArchive(project));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${project.name}.${PROJECT_ARCHIVE_EXTENSION}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const importProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const project = await importProjectArchive(file);
+      await saveProject(project);
+      openProject(project);
+      refreshRecentProjects();
+    } catch (err) {
+      console.error("Project import error", err);
+      alert(err instanceof Error ? err.message : "Could not open project.");
     }
   };
 
+  // Effect: Track the latest media for handlers that finish after an await
+  useEffect(() => {
+    mediaRef.current = media;
+  }, [media]);
+
+  // Effect: List saved projects on start
+  useEffect(refreshRecentProjects, []);
+
+  // Effect: Autosave once anything has been loaded; the media blobs are only rewritten when they change
+  useEffect(() => {
+    if (!media.audioFile && !media.imageFile && !media.lyrics.length) return;
+    const timer = setTimeout(() => {
+      const project = buildProject();
+      const files = getProjectFiles(project);
+      const saved = savedFilesRef.current;
+      const filesChanged = !saved || saved.projectId !== project.id || !isSameProjectFiles(saved.files, files);
+      saveProject(project, filesChanged)
+        .then(() => {
+          savedFilesRef.current = { projectId: project.id, files };
+          refreshRecentProjects();
+        })
+        .catch(e => console.warn("Autosave failed", e));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [media, settings, projectId]);
+
+  // Style presets: the built-in looks plus the user's library in localStorage
+  const applyPreset = (preset: StylePreset) => {
+    setSettings(s => ({ ...s, ...preset.style }));
+  };
+
+  const saveCurrentAsPreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setCustomPresets(prev => [...prev.filter(p => p.name !== name), { id: crypto.randomUUID(), name, style: getStyleSettings(settings) }]);
+    setPresetName('');
+  };
+
+  const deletePreset = (id: string) => {
+    setCustomPresets(prev => prev.filter(p => p.id !== id));
+  };
+
+  const exportPresets = () => {
+    const blob = new Blob([serializePresets(customPresets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'lyricflow-presets.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const importPresets = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      const imported = parsePresets(text);
+      // Imported presets replace saved ones with the same name
+      setCustomPresets(prev => [...prev.filter(p => !imported.some(i => i.name === p.name)), ...imported]);
+    }).catch(err => {
+      console.error("Preset import error", err);
+      alert(err instanceof Error ? err.message : "Could not import presets.");
+    });
+  };
+
+  // Ask the browser for the installed font list (Local Font Access API)
+  const loadInstalledFonts = () => {
+    listInstalledFontFamilies()
+      .then(families => setInstalledFonts(families ?? []))
+      .catch(e => console.warn("Could not list installed fonts", e));
+  };
+
+  // Effect: Load the chosen fonts; export waits until they are ready
+  useEffect(() => {
+    let cancelled = false;
+    setFontsReady(false);
+    setFontError(null);
+    Promise.all(media.fonts.map(font => registerCustomFont(font).catch(() => {
+      throw new Error(`Could not load the font "${font.family}".`);
+    })))
+      .then(() => ensureFontsLoaded(settings))
+      .then(() => { if (!cancelled) setFontsReady(true); })
+      .catch(e => {
+        console.error("Could not load fonts", e);
+        if (!cancelled) setFontError(e instanceof Error ? e.message : "Could not load fonts.");
+      });
+    return () => { cancelled = true; };
+  }, [media.fonts, settings.lyricsFont, settings.titleFont, settings.fontWeight, settings.titleFontWeight]);
+
+  // Effect: Keep the preset library in localStorage
+  useEffect(() => {
+    localStorage.setItem(PRESET_STORAGE_KEY, serializePresets(customPresets));
+  }, [customPresets]);
+
+  // Fill the color settings from the album art; the alternatives stay selectable
+  const applyCoverTheme = (palette: ThemePalette) => {
+    const { primaryColor, secondaryColor, backgroundColor, bokehColor } = palette;
+    setSettings(s => ({ ...s, primaryColor, secondaryColor, backgroundColor, bokehColor, bokehAutoColor: false }));
+  };
+
+  const generateCoverThemes = () => {
+    if (!imageRef.current) return;
+    const palettes = buildThemePalettes(extractSwatches(imageRef.current));
+    setCoverPalettes(palettes);
+    if (palettes.length) applyCoverTheme(palettes[0]);
+  };
+
   // The Main Render Loop
   const animate = useCallback(() => {
     if (canvasRef.current) {
       const ctx = canvasRef.current.getContext('2d');
       if (ctx) {
         
-        // Determine Time and Intro Status
-        let time = 0;
-        let isIntro = false;
-        
-        // Transition Opacities
-        let titleOpacity = 1.0;
-        let lyricsOpacity = 1.0;
-        const FADE_DURATION = 0.5; // Seconds
+        // Map the current clock onto the timeline (intro card, the song, then the outro).
+        // The preview always plays the whole song; recordings follow the clip range
+        const songDuration = audioRef.current && Number.isFinite(audioRef.current.duration) ? audioRef.current.duration : Infinity;
+        const timelineSettings = recordingPhase === 'idle' ? { ...settings, clipEnabled: false } : settings;
+        const range = getSongRange(timelineSettings, songDuration);
+        let timelineTime = range.introDuration;
 
         if (recordingPhase === 'intro') {
             // In Intro Recording Mode
-            isIntro = true;
-            const elapsed = (Date.now() - introStartTimeRef.current) / 1000;
-            
-            // Fade out title at end of intro
-            const remaining = settings.introDuration - elapsed;
-            if (remaining < FADE_DURATION) {
-                titleOpacity = Math.max(0, remaining / FADE_DURATION);
-            } else {
-                titleOpacity = 1.0;
-            }
-            lyricsOpacity = 0; // Hide lyrics
+            timelineTime = (performance.now() - introStartTimeRef.current) / 1000;
 
-            if (elapsed > settings.introDuration) {
+            if (timelineTime > range.introDuration) {
                  // Intro finished, start audio
                  handleIntroComplete();
-                 time = 0;
-                 isIntro = false;
+                 timelineTime = range.introDuration;
+            }
+        } else if (recordingPhase === 'outro') {
+            // In Outro Recording Mode: the audio has ended, the recorder keeps running
+            const elapsed = (performance.now() - outroStartTimeRef.current) / 1000;
+            timelineTime = range.introDuration + (range.end - range.start) + Math.min(elapsed, settings.outroDuration);
+
+            if (elapsed > settings.outroDuration) {
+                 stopRecording();
             }
         } else if (audioRef.current) {
              // Normal Playback / Recording Mode
-             time = audioRef.current.currentTime;
+             const time = audioRef.current.currentTime;
              setCurrentTime(time);
-             
-             // Fade in lyrics at start of playback if we just came from intro
-             titleOpacity = 0; // Hide title
-             if (time < FADE_DURATION) {
-                lyricsOpacity = Math.min(1.0, time / FADE_DURATION);
-             } else {
-                lyricsOpacity = 1.0;
+             timelineTime = range.introDuration + time - range.start;
+             // A finished preview holds on the end card
+             if (audioRef.current.ended) timelineTime += Math.min(OUTRO_FADE_DURATION, settings.outroDuration / 2);
+
+             // A clip recording ends at the out point instead of the end of the track
+             if (recordingPhase === 'recording' && timelineSettings.clipEnabled && time >= range.end && !audioRef.current.paused) {
+                 audioRef.current.pause();
+                 handleAudioEnded();
              }
         }
 
-        // --- Snappy Smooth Scroll Logic ---
-        let activeIndex = 0;
-        const lyrics = media.lyrics;
-        
-        for (let i = 0; i < lyrics.length; i++) {
-            if (time >= lyrics[i].time) activeIndex = i;
-            else break;
+        const frameState = getFrameState(timelineTime, media.lyrics, timelineSettings, songDuration);
+        const analysis = needsAudioAnalysis(settings) ? audioAnalysisRef.current : null;
+
+        // The background video plays along with the timeline and is seeked back when it drifts
+        const video = backgroundVideoRef.current;
+        if (video && settings.backgroundSource === 'video') {
+            const running = recordingPhase !== 'idle' || !!(audioRef.current && !audioRef.current.paused);
+            if (running && video.paused) video.play().catch(console.error);
+            if (!running && !video.paused) video.pause();
+            const target = getVideoLoopTime(video, frameState.absoluteTime / 1000);
+            if (!video.seeking && Math.abs(video.currentTime - target) > VIDEO_SYNC_TOLERANCE) video.currentTime = target;
         }
-        
-        const diff = activeIndex - smoothIndexRef.current;
-        const absDiff = Math.abs(diff);
-
-        // SNAP LOGIC REFINED:
-        if (absDiff > 10) {
-            smoothIndexRef.current = activeIndex; // Seek snap
-        } else if (absDiff < 0.001) {
-            smoothIndexRef.current = activeIndex; // Micro snap
-        } else {
-            smoothIndexRef.current += diff * 0.1; 
+
+        // The guide vocal plays along with the song and is seeked back when it drifts
+        const guide = guideAudioRef.current;
+        if (guide && audioRef.current) {
+            const song = audioRef.current;
+            if (!song.paused && guide.paused) guide.play().catch(console.error);
+            if (song.paused && !guide.paused) guide.pause();
+            if (!guide.seeking && Math.abs(guide.currentTime - song.currentTime) > GUIDE_SYNC_TOLERANCE) guide.currentTime = song.currentTime;
         }
 
         renderFrame({
@@ -600,29 +4553,127 @@ function App() {
           width: settings.videoWidth,
           height: settings.videoHeight,
           image: imageRef.current,
+          slides: slidesRef.current,
+          backgroundVideo: backgroundVideoRef.current,
           lyrics: media.lyrics,
-          currentTime: time,
-          smoothActiveIndex: smoothIndexRef.current,
-          absoluteTime: performance.now(),
-          isIntro,
-          titleOpacity,
-          lyricsOpacity,
+          metadata: media.metadata,
+          ...frameState,
+          audio: analysis && !frameState.isIntro && !frameState.isOutro ? getAudioFeatures(analysis, frameState.currentTime) : null,
           settings,
         });
       }
     }
     requestRef.current = requestAnimationFrame(animate);
-  }, [media.lyrics, settings, recordingPhase]);
+  }, [media.lyrics, media.metadata, settings, recordingPhase]);
+
+  // Handle transition from Audio -> Outro, or stop right away without one
+  const handleAudioEnded = () => {
+      setIsPlaying(false);
+      if (!isRecording) return;
+      if (settings.outroDuration > 0) {
+          outroStartTimeRef.current = performance.now();
+          setRecordingPhase('outro');
+      } else {
+          stopRecording();
+      }
+  };
 
   // Handle transition from Intro -> Audio
   const handleIntroComplete = () => {
       setRecordingPhase('recording');
       if (audioRef.current) {
+          // Clips fade in, and fade out again towards the out point
+          const gainNode = audioGraphRef.current?.fade;
+          if (gainNode && settings.clipEnabled) {
+              const { gain, context } = gainNode;
+              const range = getSongRange(settings, audioRef.current.duration);
+              const now = context.currentTime;
+              const end = now + (range.end - range.start);
+              gain.cancelScheduledValues(now);
+              gain.setValueAtTime(0, now);
+              gain.linearRampToValueAtTime(1, now + CLIP_AUDIO_FADE);
+              gain.setValueAtTime(1, Math.max(now + CLIP_AUDIO_FADE, end - CLIP_AUDIO_FADE));
+              gain.linearRampToValueAtTime(0, end);
+          }
           audioRef.current.play().catch(console.error);
           setIsPlaying(true);
       }
   };
 
+  // Effect: Decode the track for the timeline waveform
+  useEffect(() => {
+    setSongBuffer(null);
+    setWaveform(null);
+    if (!songUrl) return;
+    let cancelled = false;
+    decodeAudioFile(songUrl)
+      .then(buffer => {
+        if (cancelled) return;
+        setSongBuffer(buffer);
+        setWaveform(computeWaveformPeaks(buffer));
+      })
+      .catch(e => console.warn("Could not decode audio", e));
+    return () => { cancelled = true; };
+  }, [songUrl]);
+
+  // Effect: Analyze the track only while the visualizer or the audio-reactive motion is on
+  const analysisNeeded = needsAudioAnalysis(settings);
+  useEffect(() => {
+    audioAnalysisRef.current = songBuffer && analysisNeeded ? analyzeAudioBuffer(songBuffer) : null;
+  }, [songBuffer, analysisNeeded]);
+
+  // Effect: Redraw the waveform when the peaks or the zoom change
+  useEffect(() => {
+    const canvas = waveformCanvasRef.current;
+    if (!canvas || !waveform) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.min(MAX_WAVEFORM_CANVAS_WIDTH, Math.round(canvas.clientWidth * dpr));
+    canvas.height = Math.round(canvas.clientHeight * dpr);
+    drawWaveform(canvas, waveform, '#475569');
+  }, [waveform, timelineZoom]);
+
+  // Effect: Keep the playhead in view while playing zoomed in
+  useEffect(() => {
+    const container = timelineRef.current;
+    const track = timelineTrackRef.current;
+    if (!isPlaying || !container || !track || !waveform) return;
+    const x = (currentTime / waveform.duration) * track.clientWidth;
+    if (x < container.scrollLeft || x > container.scrollLeft + container.clientWidth) {
+      container.scrollLeft = x - container.clientWidth * 0.25;
+    }
+  }, [currentTime, isPlaying, waveform]);
+
+  // Effect: Load the slideshow images
+  useEffect(() => {
+    slidesRef.current = [];
+    let cancelled = false;
+    Promise.all(media.slideFiles.map(loadImageFile))
+      .then(images => {
+        if (!cancelled) slidesRef.current = images;
+      })
+      .catch(e => console.warn("Could not load slideshow", e));
+    return () => { cancelled = true; };
+  }, [media.slideFiles]);
+
+  // Effect: Load the background video
+  useEffect(() => {
+    backgroundVideoRef.current = null;
+    if (!media.backgroundVideoFile) return;
+    let cancelled = false;
+    let video: HTMLVideoElement | null = null;
+    loadBackgroundVideo(media.backgroundVideoFile)
+      .then(loaded => {
+        video = loaded;
+        if (cancelled) releaseBackgroundVideo(loaded);
+        else backgroundVideoRef.current = loaded;
+      })
+      .catch(e => console.warn("Could not load background video", e));
+    return () => {
+      cancelled = true;
+      if (video) releaseBackgroundVideo(video);
+    };
+  }, [media.backgroundVideoFile]);
+
   // Effect: Start/Stop Animation Loop
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
@@ -634,16 +4685,163 @@ function App() {
   // Effect: Sync Play button with Audio element state
   useEffect(() => {
     if (recordingPhase === 'idle' && audioRef.current) {
-      if (isPlaying) audioRef.current.play().catch(console.error);
-      else audioRef.current.pause();
+      const audio = audioRef.current;
+      if (isPlaying) ensureAudioGraph().then(() => audio.play()).catch(console.error);
+      else audio.pause();
     }
   }, [isPlaying, recordingPhase]);
 
-  // Recording Logic
-  const startRecording = async () => {
-    if (!canvasRef.current || !audioRef.current) return;
-    
-    // 1. Initialize Web Audio API with high quality settings
+  // Effect: Apply the audio settings to the playback graph
+  useEffect(() => {
+    const graph = audioGraphRef.current;
+    if (!graph) return;
+    const guide = guideAudioRef.current;
+    if (guide && graph.guide?.mediaElement !== guide) connectGuideVocal(graph, guide);
+    updateAudioGraph(graph, media, settings, monitorOriginal);
+  }, [settings.audioMode, settings.vocalReduction, settings.vocalBassCutoff, settings.instrumentalLevel, settings.guideVocalLevel, media.instrumentalUrl, media.guideVocalUrl, monitorOriginal]);
+
+  // Effect: Detect vocal onsets for Tap Sync snapping and suggestions
+  useEffect(() => {
+    setOnsets(null);
+    if (!syncMode || !onsetUrl) return;
+    // The song is already decoded for the waveform; only the guide vocal needs its own decode
+    const reuseSong = onsetUrl === songUrl;
+    if (reuseSong && !songBuffer) return;
+    const controller = new AbortController();
+    (reuseSong && songBuffer ? Promise.resolve(songBuffer) : decodeAudioFile(onsetUrl))
+      .then(buffer => detectVocalOnsets(buffer, controller.signal))
+      .then(detected => {
+        if (!controller.signal.aborted) setOnsets(detected);
+      })
+      .catch(e => {
+        if ((e as DOMException).name !== 'AbortError') console.warn("Could not detect onsets", e);
+      });
+    return () => controller.abort();
+  }, [syncMode, onsetUrl, songUrl, songBuffer]);
+
+  // Tap Sync: every change to the stamps is written straight into media.lyrics
+  const applySyncStamps = (stamps: number[], text: string = syncText) => {
+    setSyncStamps(stamps);
+    setSuggestedStamps([]); // Suggestions belong to the lines that were untimed when they were made
+    setMedia(prev => ({ ...prev, lyrics: buildSyncedLyrics(splitPlainLyrics(text), stamps, prev.lyrics) }));
+  };
+
+  const toggleSyncMode = () => {
+    if (!syncMode && !syncText) {
+      setSyncText(media.lyrics.map(l => l.text).join('\n'));
+    }
+    setSyncMode(!syncMode);
+  };
+
+  const startSync = () => {
+    if (!audioRef.current) return;
+    (document.activeElement as HTMLElement | null)?.blur(); // Keep Space from pressing buttons
+    audioRef.current.currentTime = 0;
+    // The lyrics keep their timings until the first tap
+    setSyncStamps([]);
+    setSuggestedStamps([]);
+    setIsPlaying(true);
+  };
+
+  const stampSyncLine = () => {
+    if (!audioRef.current || syncStamps.length >= syncLines.length) return;
+    const last = syncStamps[syncStamps.length - 1] ?? 0;
+    const time = snapToOnsets && onsets ? snapToOnset(onsets, audioRef.current.currentTime) : audioRef.current.currentTime;
+    applySyncStamps([...syncStamps, Math.max(last, time)]);
+  };
+
+  const suggestSyncStamps = () => {
+    if (!onsets) return;
+    const last = syncStamps[syncStamps.length - 1] ?? -Infinity;
+    setSuggestedStamps(suggestLineTimes(onsets, syncLines.length - syncStamps.length, last));
+  };
+
+  const acceptSuggestedStamps = () => {
+    applySyncStamps([...syncStamps, ...suggestedStamps]);
+  };
+
+  const undoSyncStamp = () => {
+    applySyncStamps(syncStamps.slice(0, -1));
+  };
+
+  const rewindSync = () => {
+    if (!audioRef.current) return;
+    const time = Math.max(0, audioRef.current.currentTime - SYNC_REWIND_SECONDS);
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+    // Drop stamps after the new position so those lines can be tapped again
+    applySyncStamps(syncStamps.filter(stamp => stamp < time));
+  };
+
+  // Effect: Tap Sync keyboard shortcuts
+  useEffect(() => {
+    if (!syncMode) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['TEXTAREA', 'INPUT', 'SELECT', 'BUTTON'].includes(target.tagName) || target.isContentEditable) return;
+
+      if (e.code === 'Space' || e.code === 'Enter') {
+        e.preventDefault();
+        stampSyncLine();
+      } else if (e.code === 'Backspace') {
+        e.preventDefault();
+        undoSyncStamp();
+      } else if (e.code === 'ArrowLeft') {
+        e.preventDefault();
+        rewindSync();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [syncMode, syncStamps, syncText, snapToOnsets, onsets]);
+
+  // Timing correction: every fix rewrites media.lyrics, so previews, exports and the LRC download pick it up
+  const seekTo = (time: number) => {
+    if (audioRef.current) audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const applyTimingOffset = () => {
+    const offset = Number(timingOffset);
+    if (!timingOffset.trim() || !Number.isFinite(offset)) return;
+    setMedia(prev => ({ ...prev, lyrics: shiftLyrics(prev.lyrics, offset) }));
+    setRetimeAnchors([null, null]);
+    setTimingOffset('');
+  };
+
+  const nudgeLyricLine = (index: number, delta: number) => {
+    setMedia(prev => ({ ...prev, lyrics: nudgeLine(prev.lyrics, index, delta) }));
+  };
+
+  // Anchor slot 0 or 1 starts at the line's current time; picking the same line again clears it
+  const toggleRetimeAnchor = (slot: number, index: number) => {
+    setRetimeAnchors(anchors => anchors.map((anchor, i) =>
+      i !== slot ? anchor : anchor?.index === index ? null : { index, time: media.lyrics[index].time }));
+  };
+
+  const setRetimeAnchorTime = (slot: number, time: number) => {
+    setRetimeAnchors(anchors => anchors.map((anchor, i) => i === slot && anchor ? { ...anchor, time } : anchor));
+  };
+
+  const applyRetime = () => {
+    const [a, b] = retimeAnchors;
+    if (!a || !b) return;
+    try {
+      const lyrics = retimeLyrics(media.lyrics, a, b, retimeExtrapolate);
+      setMedia(prev => ({ ...prev, lyrics }));
+      setRetimeAnchors([null, null]);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Could not re-time lyrics.");
+    }
+  };
+
+  // Routes the song (and the guide vocal) through the Web Audio graph, built on first use
+  const ensureAudioGraph = async (): Promise<AudioGraph | null> => {
+    if (!audioRef.current) return null;
+
+    // Initialize Web Audio API with high quality settings
     if (!audioContextRef.current) {
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
           latencyHint: 'playback',
@@ -652,29 +4850,42 @@ function App() {
     }
     const actx = audioContextRef.current;
 
-    // 2. Resume context if suspended
+    // Resume context if suspended
     if (actx.state === 'suspended') {
       try { await actx.resume(); } catch (e) { console.error("Could not resume audio context", e); }
     }
 
-    // 3. Create Destination for Recorder
-    if (!audioDestNodeRef.current) {
-      audioDestNodeRef.current = actx.createMediaStreamDestination();
+    // Each media element can only be connected once
+    try {
+      if (!audioGraphRef.current || audioGraphRef.current.song.mediaElement !== audioRef.current) {
+        audioGraphRef.current = createAudioGraph(actx, audioRef.current, media, settings);
+      }
+      const guide = guideAudioRef.current;
+      if (guide && audioGraphRef.current.guide?.mediaElement !== guide) {
+        connectGuideVocal(audioGraphRef.current, guide);
+      }
+    } catch (err) {
+      console.warn("Audio node already connected:", err);
     }
-    const dest = audioDestNodeRef.current;
 
-    // 4. Connect Audio Element
-    if (!audioSourceNodeRef.current && audioRef.current) {
-      try {
-          audioSourceNodeRef.current = actx.createMediaElementSource(audioRef.current);
-          audioSourceNodeRef.current.connect(dest); 
-          audioSourceNodeRef.current.connect(actx.destination); 
-      } catch (err) {
-          console.warn("Audio node already connected:", err);
-      }
+    const graph = audioGraphRef.current;
+    if (graph) updateAudioGraph(graph, media, settings, monitorOriginal);
+    return graph;
+  };
+
+  // Recording Logic
+  const startRecording = async () => {
+    if (!canvasRef.current || !audioRef.current) return;
+    
+    // 1. Route the audio through the processing graph, which feeds the recorder
+    const graph = await ensureAudioGraph();
+    if (!graph) {
+        alert("Could not start recording high-quality video.");
+        return;
     }
+    const { context: actx, recorder: dest } = graph;
 
-    // 5. Active Silence (Keep recording clock alive during intro)
+    // 2. Active Silence (Keep recording clock alive during intro)
     const osc = actx.createOscillator();
     const gain = actx.createGain();
     gain.gain.value = 0; 
@@ -683,7 +4894,7 @@ function App() {
     osc.start();
     silenceOscRef.current = osc;
 
-    // 6. Setup Stream & High Quality Recorder Options
+    // 3. Setup Stream & High Quality Recorder Options
     const canvasStream = canvasRef.current.captureStream(60); 
     const finalStream = new MediaStream([
         ...canvasStream.getVideoTracks(),
@@ -711,10 +4922,18 @@ function App() {
             const blob = new Blob(chunksRef.current, { type: 'video/webm' });
             const url = URL.createObjectURL(blob);
             setDownloadUrl(url);
+            setDownloadExtension('webm');
             chunksRef.current = [];
             setRecordingPhase('idle');
             setIsRecording(false);
             setIsPlaying(false);
+
+            // Undo the clip fades so the preview plays at full volume
+            const gainNode = audioGraphRef.current?.fade;
+            if (gainNode) {
+                gainNode.gain.cancelScheduledValues(0);
+                gainNode.gain.setValueAtTime(1, gainNode.context.currentTime);
+            }
             
             if(silenceOscRef.current) {
                 try { silenceOscRef.current.stop(); } catch(e){}
@@ -729,11 +4948,10 @@ function App() {
         setIsRecording(true);
         setDownloadUrl(null);
 
-        // 7. Start Intro Phase
-        audioRef.current.currentTime = 0;
+        // 4. Start Intro Phase (clips start at their in point)
+        audioRef.current.currentTime = getSongRange(settings, audioRef.current.duration).start;
         audioRef.current.pause();
-        smoothIndexRef.current = 0;
-        introStartTimeRef.current = Date.now();
+        introStartTimeRef.current = performance.now();
         setRecordingPhase('intro');
         
     } catch (e) {
@@ -742,6 +4960,120 @@ function App() {
     }
   };
 
+  // Offline Export: renders on a virtual clock, falls back to recording without WebCodecs
+  const startOfflineExport = async () => {
+    if (!songUrl) return;
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setIsPlaying(false);
+    setDownloadUrl(null);
+    setExportProgress(0);
+
+    // The export seeks its own copy of the video so the preview keeps playing undisturbed
+    let backgroundVideo: HTMLVideoElement | null = null;
+    try {
+      const audioBuffer = await decodeExportAudio(media, settings);
+      if (settings.backgroundSource === 'video' && media.backgroundVideoFile) {
+        backgroundVideo = await loadBackgroundVideo(media.backgroundVideoFile);
+      }
+      const blob = await renderOffline({
+        audioBuffer,
+        image: imageRef.current,
+        slides: slidesRef.current,
+        backgroundVideo,
+        lyrics: media.lyrics,
+        metadata: media.metadata,
+        settings,
+        fps: OFFLINE_EXPORT_FPS,
+        signal: controller.signal,
+        onProgress: setExportProgress,
+      });
+      setDownloadUrl(URL.createObjectURL(blob));
+      setDownloadExtension('mp4');
+    } catch (e) {
+      if ((e as DOMException).name !== 'AbortError') {
+        console.error("Export error", e);
+        alert("Could not export video.");
+      }
+    } finally {
+      if (backgroundVideo) releaseBackgroundVideo(backgroundVideo);
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  // Clip range: in and out points in song time, kept in order and inside the song
+  const getSeekDuration = () => audioRef.current?.duration || 100;
+
+  const setClipEdge = (edge: 'start' | 'end', time: number) => {
+    const t = Math.max(0, Math.min(time, getSeekDuration()));
+    setSettings(s => edge === 'start'
+      ? { ...s, clipStart: Math.max(0, Math.min(t, s.clipEnd - MIN_CLIP_DURATION)) }
+      : { ...s, clipEnd: Math.max(t, s.clipStart + MIN_CLIP_DURATION) });
+  };
+
+  // Starts a lead-in before the line so the fade does not swallow its first word;
+  // ends where the next line starts
+  const setClipEdgeToLine = (edge: 'start' | 'end', index: number) => {
+    const line = media.lyrics[index];
+    if (!line) return;
+    if (edge === 'start') setClipEdge('start', line.time - CLIP_AUDIO_FADE);
+    else setClipEdge('end', media.lyrics[index + 1]?.time ?? getLineEndTime(media.lyrics, index, UNTIMED_LINE_DURATION));
+  };
+
+  // A fresh clip starts at the playhead and runs for 30 seconds
+  const toggleClip = () => {
+    const duration = getSeekDuration();
+    setSettings(s => {
+      if (s.clipEnabled) return { ...s, clipEnabled: false };
+      const fits = s.clipStart < s.clipEnd && s.clipEnd <= duration;
+      return fits ? { ...s, clipEnabled: true } : { ...s, clipEnabled: true, clipStart: currentTime, clipEnd: Math.min(duration, currentTime + 30) };
+    });
+  };
+
+  // Drag handles on the seek bar move the in and out points
+  const dragClipEdge = (e: React.PointerEvent<HTMLDivElement>, edge: 'start' | 'end') => {
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const track = seekBarRef.current?.getBoundingClientRect();
+    if (!track || track.width === 0) return;
+    setClipEdge(edge, ((e.clientX - track.left) / track.width) * getSeekDuration());
+  };
+
+  // Waveform timeline: click to seek, drag a lyric marker to move its line
+  const getTimelineTime = (clientX: number) => {
+    const track = timelineTrackRef.current?.getBoundingClientRect();
+    if (!track || track.width === 0) return 0;
+    const duration = waveform?.duration || getSeekDuration();
+    return Math.max(0, Math.min(1, (clientX - track.left) / track.width)) * duration;
+  };
+
+  // A marker that is clicked without moving seeks to its line instead
+  const dragLyricMarker = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    e.stopPropagation();
+    if (e.type === 'pointerdown') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      markerDragRef.current = { index, grabOffset: getTimelineTime(e.clientX) - media.lyrics[index].time, startX: e.clientX, moved: false };
+      return;
+    }
+    const drag = markerDragRef.current;
+    if (!drag || drag.index !== index) return;
+    if (e.type === 'pointerup') {
+      markerDragRef.current = null;
+      if (!drag.moved) seekTo(media.lyrics[index].time);
+      return;
+    }
+    if (!drag.moved && Math.abs(e.clientX - drag.startX) < MARKER_DRAG_THRESHOLD) return;
+    drag.moved = true;
+    const time = getTimelineTime(e.clientX) - drag.grabOffset;
+    setMedia(prev => ({ ...prev, lyrics: nudgeLine(prev.lyrics, index, time - prev.lyrics[index].time) }));
+  };
+
+  const cancelOfflineExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
   const stopRecording = () => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
         mediaRecorderRef.current.stop();
@@ -757,6 +5089,8 @@ function App() {
     }
   };
 
+  const fontFamilies = [...new Set([...SYSTEM_FONTS, ...media.fonts.map(f => f.family), ...installedFonts])];
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 flex flex-col p-4 md:p-8">
       
@@ -773,20 +5107,37 @@ function App() {
           {downloadUrl && (
              <a 
                href={downloadUrl} 
-               download={`${media.fileName}.webm`}
+               download={`${media.fileName}.${downloadExtension}`}
                className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-500 rounded-lg font-medium transition-colors"
              >
                <Download size={18} /> Download Video
              </a>
           )}
           
-          {!isRecording ? (
+          {fontError && (
+             <p className="flex items-center max-w-xs text-xs text-rose-400">{fontError} Export stays off until the fonts load.</p>
+          )}
+
+          {exportProgress !== null ? (
+             <div className="flex items-center gap-3 px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg">
+                <div className="w-40 h-2 bg-slate-700 rounded-full overflow-hidden">
+                   <div className="h-full bg-rose-500 transition-all" style={{ width: `${exportProgress * 100}%` }} />
+                </div>
+                <span className="text-xs font-mono text-slate-300 w-10 text-right">{Math.round(exportProgress * 100)}%</span>
+                <button
+                   onClick={cancelOfflineExport}
+                   className="flex items-center gap-1 text-xs font-medium text-slate-400 hover:text-white transition-colors"
+                >
+                   <X size={14} /> Cancel
+                </button>
+             </div>
+          ) : !isRecording ? (
              <button
-                onClick={startRecording}
-                disabled={!media.audioUrl || !media.lyrics.length}
+                onClick={isOfflineExportSupported() ? startOfflineExport : startRecording}
+                disabled={!songUrl || !media.lyrics.length || !fontsReady}
                 className="flex items-center gap-2 px-6 py-2.5 bg-rose-600 hover:bg-rose-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-bold transition-all shadow-lg shadow-rose-900/40 hover:scale-105 active:scale-95"
              >
-                <MonitorPlay size={20} /> Record High Quality
+                <MonitorPlay size={20} /> {fontError ? 'Font Error' : !fontsReady ? 'Loading Fonts...' : isOfflineExportSupported() ? (settings.clipEnabled ? 'Export Clip' : 'Export Video') : 'Record High Quality'}
              </button>
           ) : (
             <button
@@ -794,7 +5145,7 @@ function App() {
                 className="flex items-center gap-2 px-6 py-2.5 bg-slate-800 border-2 border-rose-500 animate-pulse text-rose-500 rounded-lg font-bold"
             >
                 <span className="w-3 h-3 bg-rose-500 rounded-full animate-ping"></span>
-                {recordingPhase === 'intro' ? 'Recording Intro...' : 'Stop Recording'}
+                {recordingPhase === 'intro' ? 'Recording Intro...' : recordingPhase === 'outro' ? 'Recording Outro...' : 'Stop Recording'}
             </button>
           )}
         </div>
@@ -805,6 +5156,66 @@ function App() {
         {/* Left Sidebar: Controls */}
         <div className="w-full xl:w-96 flex flex-col gap-6 order-2 xl:order-1 h-full overflow-y-auto pr-2 custom-scrollbar">
           
+          {/* Projects */}
+          <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
+             <h2 className="text-lg font-semibold text-slate-200 mb-2 flex items-center gap-2">
+                <span className="flex items-center justify-center w-6 h-6 rounded-full bg-slate-800 text-sky-400"><FolderOpen size={12} /></span>
+                Project
+             </h2>
+
+             <div className="grid grid-cols-3 gap-2">
+                <button
+                  onClick={newProject}
+                  className="flex items-center justify-center gap-1.5 py-2 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:border-slate-500 transition-colors"
+                >
+                   <FilePlus size={14} /> New
+                </button>
+                <div className="relative">
+                   <input 
+                     type="file" 
+                     accept={`.${PROJECT_ARCHIVE_EXTENSION}`} 
+                     onChange={importProject}
+                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                   />
+                   <div className="flex items-center justify-center gap-1.5 py-2 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:border-slate-500 transition-colors">
+                      <FolderOpen size={14} /> Open
+                   </div>
+                </div>
+                <button
+                  onClick={downloadProjectArchive}
+                  disabled={!media.audioFile && !media.imageFile && !media.lyrics.length}
+                  className="flex items-center justify-center gap-1.5 py-2 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:border-slate-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                   <Save size={14} /> Save
+                </button>
+             </div>
+
+             {recentProjects.length > 0 && (
+                <div className="space-y-1">
+                   <span className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Recent</span>
+                   {recentProjects.map(project => (
+                      <div
+                        key={project.id}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors ${project.id === projectId ? 'border-sky-500 bg-sky-900/20' : 'border-slate-800 hover:border-slate-600'}`}
+                      >
+                         <button onClick={() => openRecentProject(project.id)} className="flex-1 min-w-0 text-left">
+                            <p className="text-xs font-medium truncate text-slate-200">{project.name || 'Untitled'}</p>
+                            <p className="text-[10px] text-slate-500">{new Date(project.updatedAt).toLocaleString()}</p>
+                         </button>
+                         <button
+                           onClick={() => removeRecentProject(project.id)}
+                           title="Delete project"
+                           className="text-slate-500 hover:text-rose-400 transition-colors"
+                         >
+                            <Trash2 size={14} />
+                         </button>
+                      </div>
+                   ))}
+                   <p className="text-[10px] text-slate-500">Projects save automatically in this browser.</p>
+                </div>
+             )}
+          </div>
+
           {/* File Uploads */}
           <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
              <h2 className="text-lg font-semibold text-slate-200 mb-2 flex items-center gap-2">
@@ -832,6 +5243,112 @@ function App() {
                 </div>
              </div>
 
+             {/* Vocals: original mix, vocal reduction or separate stems */}
+             <div className="space-y-3">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2">
+                    <MicVocal size={12}/> Vocals
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                   {AUDIO_MODES.map(mode => (
+                      <button
+                        key={mode.id}
+                        onClick={() => setSettings(s => ({...s, audioMode: mode.id}))}
+                        className={`py-1.5 rounded-lg border text-xs font-bold transition-colors ${settings.audioMode === mode.id ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                      >
+                         {mode.label}
+                      </button>
+                   ))}
+                </div>
+
+                {settings.audioMode === 'vocalReduction' && (
+                    <div className="bg-slate-900/50 p-3 rounded-lg space-y-3 animate-in fade-in slide-in-from-top-2">
+                        <div className="space-y-1">
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs text-slate-400">Strength</label>
+                                <span className="text-[10px] text-slate-500 font-mono">{settings.vocalReduction}%</span>
+                            </div>
+                            <input 
+                               type="range" min="0" max="100" 
+                               value={settings.vocalReduction} 
+                               onChange={(e) => setSettings({...settings, vocalReduction: Number(e.target.value)})}
+                               className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs text-slate-400">Keep Bass Below</label>
+                                <span className="text-[10px] text-slate-500 font-mono">{settings.vocalBassCutoff} Hz</span>
+                            </div>
+                            <input 
+                               type="range" min="40" max="400" step="10" 
+                               value={settings.vocalBassCutoff} 
+                               onChange={(e) => setSettings({...settings, vocalBassCutoff: Number(e.target.value)})}
+                               className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                            />
+                        </div>
+                        <button
+                          onClick={() => setMonitorOriginal(m => !m)}
+                          className={`w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg border text-xs font-bold transition-colors ${monitorOriginal ? 'border-amber-500 bg-amber-900/20 text-amber-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                        >
+                           <Headphones size={12} /> {monitorOriginal ? 'Hearing Original (A)' : 'Hearing Processed (B)'}
+                        </button>
+                        <p className="text-[10px] text-slate-500">Removes the center of the stereo mix, where lead vocals usually sit. The export always uses the processed audio.</p>
+                    </div>
+                )}
+
+                {settings.audioMode === 'stems' && (
+                    <div className="bg-slate-900/50 p-3 rounded-lg space-y-3 animate-in fade-in slide-in-from-top-2">
+                        <div className="relative">
+                           <input 
+                             type="file" 
+                             accept="audio/*" 
+                             onChange={(e) => handleFileUpload(e, 'instrumental')}
+                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                           />
+                           <div className={`flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-dashed text-xs transition-colors ${media.instrumentalUrl ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-300 hover:border-slate-500'}`}>
+                              <Upload size={12} /> {media.instrumentalUrl ? 'Instrumental Loaded' : 'Upload Instrumental'}
+                           </div>
+                        </div>
+                        <div className="space-y-1">
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs text-slate-400">Instrumental Level</label>
+                                <span className="text-[10px] text-slate-500 font-mono">{settings.instrumentalLevel}%</span>
+                            </div>
+                            <input 
+                               type="range" min="0" max="100" 
+                               value={settings.instrumentalLevel} 
+                               onChange={(e) => setSettings({...settings, instrumentalLevel: Number(e.target.value)})}
+                               className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                            />
+                        </div>
+                        <div className="relative">
+                           <input 
+                             type="file" 
+                             accept="audio/*" 
+                             onChange={(e) => handleFileUpload(e, 'guideVocal')}
+                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                           />
+                           <div className={`flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-dashed text-xs transition-colors ${media.guideVocalUrl ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-300 hover:border-slate-500'}`}>
+                              <Upload size={12} /> {media.guideVocalUrl ? 'Guide Vocal Loaded' : 'Upload Guide Vocal'}
+                           </div>
+                        </div>
+                        <div className="space-y-1">
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs text-slate-400">Guide Vocal Level</label>
+                                <span className="text-[10px] text-slate-500 font-mono">{settings.guideVocalLevel}%</span>
+                            </div>
+                            <input 
+                               type="range" min="0" max="100" 
+                               value={settings.guideVocalLevel} 
+                               onChange={(e) => setSettings({...settings, guideVocalLevel: Number(e.target.value)})}
+                               className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                            />
+                        </div>
+                        <p className="text-[10px] text-slate-500">Both tracks must start at the same time as the song the lyrics were timed to.</p>
+                    </div>
+                )}
+             </div>
+
              {/* Image */}
              <div className="group relative">
                 <input 
@@ -855,7 +5372,7 @@ function App() {
              <div className="group relative">
                 <input 
                   type="file" 
-                  accept=".lrc,.txt" 
+                  accept=".lrc,.txt,.srt,.vtt,.ass,.ssa" 
                   onChange={(e) => handleFileUpload(e, 'lrc')}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                 />
@@ -865,11 +5382,298 @@ function App() {
                    </div>
                    <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium truncate text-slate-200">{media.lyrics.length > 0 ? `${media.lyrics.length} lines loaded` : 'Upload Lyrics'}</p>
+                      <p className="text-xs text-slate-400 mt-0.5 truncate">LRC, SRT, VTT or ASS</p>
                    </div>
                    <Upload size={16} className="text-slate-500" />
                 </div>
              </div>
+
+             {/* Translation (optional second file matched by time) */}
+             {media.lyrics.length > 0 && (
+                <div className="group relative">
+                   <input 
+                     type="file" 
+                     accept=".lrc,.txt,.srt,.vtt,.ass,.ssa" 
+                     onChange={(e) => handleFileUpload(e, 'translation')}
+                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                   />
+                   <div className={`px-4 py-2.5 rounded-xl border border-dashed flex items-center gap-3 transition-all ${media.lyrics.some(l => l.translations?.length) ? 'border-sky-500 bg-sky-900/20' : 'border-slate-700 hover:border-slate-500 bg-slate-900'}`}>
+                      <Languages size={16} className="text-slate-400" />
+                      <p className="flex-1 text-xs font-medium truncate text-slate-300">
+                         {media.lyrics.some(l => l.translations?.length)
+                            ? `${media.lyrics.filter(l => l.translations?.length).length} lines translated`
+                            : 'Add Translation (optional)'}
+                      </p>
+                      <Upload size={14} className="text-slate-500" />
+                   </div>
+                </div>
+             )}
+
+             {/* Lyrics Export */}
+             {media.lyrics.length > 0 && (
+                <div className="flex items-center gap-2">
+                   <span className="text-[10px] text-slate-500 uppercase font-bold tracking-wider flex-1">Export Lyrics</span>
+                   {(['lrc', 'srt', 'vtt'] as LyricsExportFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => exportLyrics(format)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-md transition-colors"
+                      >
+                        <Download size={12} /> {format.toUpperCase()}
+                      </button>
+                   ))}
+                </div>
+             )}
+          </div>
+
+          {/* Tap Sync */}
+          <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
+             <div className="flex justify-between items-center">
+                <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                   <Timer size={18} className="text-sky-400" />
+                   Tap Sync
+                </h2>
+                <button 
+                    onClick={toggleSyncMode}
+                    className={`w-10 h-5 rounded-full relative transition-colors ${syncMode ? 'bg-sky-500' : 'bg-slate-700'}`}
+                >
+                    <span className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${syncMode ? 'left-6' : 'left-1'}`} />
+                </button>
+             </div>
+
+             {syncMode && (
+                <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
+                   <textarea
+                      value={syncText}
+                      onChange={(e) => {
+                          setSyncText(e.target.value);
+                          // Untouched lyrics keep their own timings until the first stamp
+                          if (syncStamps.length > 0) applySyncStamps(syncStamps, e.target.value);
+                      }}
+                      placeholder="Paste plain lyrics, one line per row"
+                      rows={5}
+                      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-500 transition-colors resize-y"
+                   />
+
+                   {syncLines.length > 0 && (
+                      <div className="max-h-48 overflow-y-auto bg-slate-900 rounded-lg p-2 space-y-0.5">
+                         {syncLines.map((text, i) => (
+                            <div 
+                              key={i}
+                              className={`flex gap-3 px-2 py-1 rounded text-xs ${i === syncStamps.length ? 'bg-sky-900/40 text-sky-300' : i < syncStamps.length ? 'text-slate-300' : 'text-slate-500'}`}
+                            >
+                               {i < syncStamps.length ? (
+                                  <span className="font-mono shrink-0">{formatLrcTime(syncStamps[i])}</span>
+                               ) : suggestedStamps[i - syncStamps.length] !== undefined ? (
+                                  <span className="font-mono shrink-0 italic text-amber-300" title="Suggested from the audio">{formatLrcTime(suggestedStamps[i - syncStamps.length])}</span>
+                               ) : (
+                                  <span className="font-mono shrink-0">--:--.--</span>
+                               )}
+                               <span className="truncate">{text}</span>
+                            </div>
+                         ))}
+                      </div>
+                   )}
+
+                   <div className="flex gap-2">
+                      <button
+                        onClick={startSync}
+                        disabled={!songUrl || syncLines.length === 0}
+                        className="flex-1 flex items-center justify-center gap-1 px-3 py-2 text-xs font-bold bg-sky-600 hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                      >
+                        <Play size={12} /> Start
+                      </button>
+                      <button
+                        onClick={undoSyncStamp}
+                        disabled={syncStamps.length === 0}
+                        className="flex items-center gap-1 px-3 py-2 text-xs font-medium bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg transition-colors"
+                      >
+                        <Undo2 size={12} /> Undo
+                      </button>
+                      <button
+                        onClick={rewindSync}
+                        disabled={!songUrl}
+                        className="flex items-center gap-1 px-3 py-2 text-xs font-medium bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg transition-colors"
+                      >
+                        <Rewind size={12} /> {SYNC_REWIND_SECONDS}s
+                      </button>
+                      <button
+                        onClick={() => exportLyrics('lrc')}
+                        disabled={syncStamps.length === 0}
+                        className="flex items-center gap-1 px-3 py-2 text-xs font-medium bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg transition-colors"
+                      >
+                        <Download size={12} /> LRC
+                      </button>
+                   </div>
+
+                   {/* Onset suggestions */}
+                   <div className="flex items-center gap-2">
+                      <label className="flex-1 flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                         <input 
+                            type="checkbox" 
+                            checked={snapToOnsets}
+                            onChange={(e) => setSnapToOnsets(e.target.checked)}
+                            className="rounded bg-slate-700 border-slate-600 text-sky-500 focus:ring-0 focus:ring-offset-0 w-3 h-3"
+                         />
+                         <Magnet size={12} /> Snap taps to vocal onsets
+                      </label>
+                      {suggestedStamps.length > 0 ? (
+                         <>
+                            <button
+                              onClick={acceptSuggestedStamps}
+                              className="flex items-center gap-1 px-3 py-1 text-xs font-medium bg-amber-600 hover:bg-amber-500 rounded-lg transition-colors"
+                            >
+                              <Check size={12} /> Accept {suggestedStamps.length}
+                            </button>
+                            <button
+                              onClick={() => setSuggestedStamps([])}
+                              className="text-slate-500 hover:text-slate-200 transition-colors"
+                              title="Discard the suggestions"
+                            >
+                              <X size={14} />
+                            </button>
+                         </>
+                      ) : (
+                         <button
+                           onClick={suggestSyncStamps}
+                           disabled={!onsets || syncStamps.length >= syncLines.length}
+                           className="flex items-center gap-1 px-3 py-1 text-xs font-medium bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg transition-colors"
+                         >
+                           <Wand2 size={12} /> {onsetUrl && !onsets ? 'Analyzing...' : 'Suggest Times'}
+                         </button>
+                      )}
+                   </div>
+
+                   <p className="text-[10px] text-slate-500">
+                      Space/Enter stamps the highlighted line • Backspace undoes • ← rewinds {SYNC_REWIND_SECONDS}s and clears later stamps • Suggested times (amber) can be fine-tuned under Timing once accepted
+                   </p>
+                </div>
+             )}
+          </div>
+
+          {/* Timing Correction */}
+          {media.lyrics.length > 0 && (
+          <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
+             <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                <Clock size={18} className="text-sky-400" />
+                Timing
+             </h2>
+
+             {/* Global Offset */}
+             <div className="flex items-center gap-2">
+                <label className="text-xs text-slate-400 flex-1">Shift all lines (s)</label>
+                <input
+                  type="number"
+                  step="0.05"
+                  value={timingOffset}
+                  onChange={(e) => setTimingOffset(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') applyTimingOffset(); }}
+                  placeholder="-0.25"
+                  className="w-20 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs font-mono text-slate-300 focus:outline-none focus:border-sky-500"
+                />
+                <button
+                  onClick={applyTimingOffset}
+                  disabled={!timingOffset.trim()}
+                  className="px-3 py-1 text-xs font-medium bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg transition-colors"
+                >
+                   Apply
+                </button>
+             </div>
+
+             {/* Lines with per-line nudge and re-time anchors */}
+             <div className="max-h-56 overflow-y-auto bg-slate-900 rounded-lg p-2 space-y-0.5">
+                {media.lyrics.map((line, i) => (
+                   <div
+                     key={i}
+                     className={`flex items-center gap-2 px-2 py-1 rounded text-xs ${i === activeLineIndex ? 'bg-sky-900/40 text-sky-300' : 'text-slate-400'}`}
+                   >
+                      <button
+                        onClick={() => seekTo(line.time)}
+                        className="font-mono shrink-0 hover:text-sky-300 transition-colors"
+                        title="Seek to this line"
+                      >
+                         {formatLrcTime(line.time)}
+                      </button>
+                      <span className="flex-1 truncate">{line.text}</span>
+                      <button onClick={() => nudgeLyricLine(i, -LINE_NUDGE_STEP)} className="text-slate-500 hover:text-slate-200 transition-colors" title={`${LINE_NUDGE_STEP * 1000}ms earlier`}>
+                         <Minus size={12} />
+                      </button>
+                      <button onClick={() => nudgeLyricLine(i, LINE_NUDGE_STEP)} className="text-slate-500 hover:text-slate-200 transition-colors" title={`${LINE_NUDGE_STEP * 1000}ms later`}>
+                         <Plus size={12} />
+                      </button>
+                      {['A', 'B'].map((name, slot) => (
+                         <button
+                           key={name}
+                           onClick={() => toggleRetimeAnchor(slot, i)}
+                           className={`w-5 rounded border text-[10px] font-bold transition-colors ${retimeAnchors[slot]?.index === i ? 'border-amber-500 bg-amber-900/20 text-amber-300' : 'border-slate-700 text-slate-500 hover:border-slate-500'}`}
+                           title={`Use as re-time point ${name}`}
+                         >
+                            {name}
+                         </button>
+                      ))}
+                   </div>
+                ))}
+             </div>
+
+             {/* Two-point re-time */}
+             {retimeAnchors.some(Boolean) && (
+                <div className="bg-slate-900/50 p-3 rounded-lg space-y-3 animate-in fade-in slide-in-from-top-2">
+                   {retimeAnchors.map((anchor, slot) => anchor && (
+                      <div key={slot} className="flex items-center gap-2">
+                         <label className="text-xs font-bold text-amber-300 w-4">{slot === 0 ? 'A' : 'B'}</label>
+                         <span className="flex-1 min-w-0 text-xs text-slate-400 truncate">{media.lyrics[anchor.index]?.text}</span>
+                         <input
+                           key={anchor.time}
+                           type="text"
+                           defaultValue={formatLrcTime(anchor.time)}
+                           onBlur={(e) => {
+                               const time = parseTimeInput(e.target.value);
+                               if (time !== null) setRetimeAnchorTime(slot, time);
+                               else e.target.value = formatLrcTime(anchor.time);
+                           }}
+                           onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                           className="w-20 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs font-mono text-slate-300 focus:outline-none focus:border-sky-500"
+                         />
+                         <button
+                           onClick={() => setRetimeAnchorTime(slot, currentTime)}
+                           className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:border-slate-500 transition-colors"
+                           title="Use the playhead position"
+                         >
+                            Now
+                         </button>
+                      </div>
+                   ))}
+                   <button
+                     onClick={applyRetime}
+                     disabled={!retimeAnchors.every(Boolean)}
+                     className="w-full py-1.5 text-xs font-bold bg-sky-600 hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                   >
+                      Re-time Lyrics
+                   </button>
+                   <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                      <input 
+                         type="checkbox" 
+                         checked={retimeExtrapolate}
+                         onChange={(e) => setRetimeExtrapolate(e.target.checked)}
+                         className="rounded bg-slate-700 border-slate-600 text-sky-500 focus:ring-0 focus:ring-offset-0 w-3 h-3"
+                      />
+                      Extend to lines before A and after B
+                   </label>
+                   <p className="text-[10px] text-slate-500">Set the true start of both lines; the lines between them are stretched to match. Extend it when the drift runs through the whole song.</p>
+                </div>
+             )}
+
+             <div className="flex items-center gap-2">
+                <p className="flex-1 text-[10px] text-slate-500">± moves a line by {LINE_NUDGE_STEP * 1000}ms • click a time to seek</p>
+                <button
+                  onClick={() => exportLyrics('lrc')}
+                  className="flex items-center gap-1 px-3 py-2 text-xs font-medium bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                >
+                  <Download size={12} /> LRC
+                </button>
+             </div>
           </div>
+          )}
 
           {/* Settings */}
           <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-5">
@@ -877,6 +5681,69 @@ function App() {
                 <span className="flex items-center justify-center w-6 h-6 rounded-full bg-slate-800 text-xs text-sky-400">2</span>
                 Appearance
              </h2>
+
+             {/* Style Presets */}
+             <div className="space-y-2">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2"><Bookmark size={12}/> Style Presets</label>
+                <div className="flex gap-2 flex-wrap">
+                   {[...BUILT_IN_PRESETS, ...customPresets].map(preset => (
+                      <div key={preset.id} className="flex items-center rounded-lg border border-slate-700 hover:border-slate-500 transition-colors">
+                         <button
+                           onClick={() => applyPreset(preset)}
+                           className="flex items-center gap-1.5 pl-2 pr-2 py-1.5 text-xs font-bold text-slate-300"
+                         >
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: preset.style.primaryColor }} />
+                            {preset.name}
+                         </button>
+                         {!preset.builtIn && (
+                            <button
+                              onClick={() => deletePreset(preset.id)}
+                              title="Delete preset"
+                              className="pr-2 text-slate-500 hover:text-rose-400 transition-colors"
+                            >
+                               <X size={12} />
+                            </button>
+                         )}
+                      </div>
+                   ))}
+                </div>
+                <div className="flex gap-2">
+                   <input 
+                      type="text" 
+                      value={presetName}
+                      onChange={(e) => setPresetName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') saveCurrentAsPreset(); }}
+                      placeholder="Save current look as..."
+                      className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:border-sky-500 transition-colors"
+                   />
+                   <button
+                     onClick={saveCurrentAsPreset}
+                     disabled={!presetName.trim()}
+                     className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:border-slate-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                   >
+                      Save
+                   </button>
+                </div>
+                <div className="flex items-center gap-2">
+                   <span className="text-[10px] text-slate-500 flex-1">Presets keep colors, fonts, effects and layout, not the song.</span>
+                   <div className="relative">
+                      <input 
+                        type="file" 
+                        accept=".json,application/json" 
+                        onChange={importPresets}
+                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                      />
+                      <span className="text-[10px] font-bold text-slate-400 hover:text-white uppercase tracking-wider">Import</span>
+                   </div>
+                   <button
+                     onClick={exportPresets}
+                     disabled={!customPresets.length}
+                     className="text-[10px] font-bold text-slate-400 hover:text-white uppercase tracking-wider disabled:opacity-40 disabled:cursor-not-allowed"
+                   >
+                      Export
+                   </button>
+                </div>
+             </div>
              
              {/* Song Title Input */}
              <div className="space-y-2">
@@ -888,6 +5755,17 @@ function App() {
                     placeholder="Enter Song Name"
                     className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-500 transition-colors"
                 />
+                {(media.metadata.artist || media.metadata.album) && (
+                    <label className="text-[10px] text-slate-500 flex items-center gap-1 cursor-pointer">
+                        <input 
+                           type="checkbox" 
+                           checked={settings.showMetadata}
+                           onChange={(e) => setSettings(s => ({...s, showMetadata: e.target.checked}))}
+                           className="rounded bg-slate-700 border-slate-600 text-sky-500 focus:ring-0 focus:ring-offset-0 w-3 h-3"
+                        />
+                        Show {[media.metadata.artist, media.metadata.album].filter(Boolean).join(' • ')} on title card
+                    </label>
+                )}
              </div>
 
              {/* Colors */}
@@ -912,6 +5790,39 @@ function App() {
                    </div>
                 </div>
              </div>
+
+             {/* Cover Theme */}
+             <div className="space-y-2">
+                <button
+                  onClick={generateCoverThemes}
+                  disabled={!media.imageUrl}
+                  className="w-full flex items-center justify-center gap-2 py-2 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:border-slate-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                   <Palette size={14} /> Auto Theme from Cover
+                </button>
+                {coverPalettes.length > 0 && (
+                    <div className="grid grid-cols-4 gap-2">
+                       {coverPalettes.map(palette => {
+                          const active = settings.primaryColor === palette.primaryColor && settings.backgroundColor === palette.backgroundColor;
+                          return (
+                             <button
+                               key={palette.name}
+                               title={palette.name}
+                               onClick={() => applyCoverTheme(palette)}
+                               className={`p-1.5 rounded-lg border transition-colors ${active ? 'border-sky-500 bg-sky-900/20' : 'border-slate-700 hover:border-slate-500'}`}
+                             >
+                                <div className="flex h-5 rounded overflow-hidden">
+                                   {[palette.backgroundColor, palette.primaryColor, palette.secondaryColor, palette.bokehColor].map((c, i) => (
+                                      <span key={i} className="flex-1" style={{ backgroundColor: c }} />
+                                   ))}
+                                </div>
+                                <span className="block mt-1 text-[10px] text-slate-400">{palette.name}</span>
+                             </button>
+                          );
+                       })}
+                    </div>
+                )}
+             </div>
              
              {/* Font Size */}
              <div className="space-y-3 pt-2">
@@ -927,6 +5838,122 @@ function App() {
                 />
              </div>
 
+             {/* Typography */}
+             <div className="space-y-3 pt-2">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2"><Type size={12}/> Typography</label>
+                <div className="bg-slate-900/50 p-3 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="text-xs text-slate-400">Lyrics Font</label>
+                        <select
+                           value={settings.lyricsFont}
+                           onChange={(e) => setSettings(s => ({...s, lyricsFont: e.target.value}))}
+                           className="flex-1 max-w-[60%] bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-sky-500"
+                        >
+                           {fontFamilies.map(family => <option key={family} value={family}>{family}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="text-xs text-slate-400">Title Font</label>
+                        <select
+                           value={settings.titleFont}
+                           onChange={(e) => setSettings(s => ({...s, titleFont: e.target.value}))}
+                           className="flex-1 max-w-[60%] bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-sky-500"
+                        >
+                           {fontFamilies.map(family => <option key={family} value={family}>{family}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <div className="relative flex-1">
+                           <input 
+                             type="file" 
+                             accept=".ttf,.otf,.woff,.woff2" 
+                             onChange={(e) => handleFileUpload(e, 'font')}
+                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                           />
+                           <div className="flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-dashed border-slate-700 text-xs text-slate-300 hover:border-slate-500 transition-colors">
+                              <Upload size={12} /> Upload Font
+                           </div>
+                        </div>
+                        {'queryLocalFonts' in window && !installedFonts.length && (
+                           <button
+                             onClick={loadInstalledFonts}
+                             className="flex-1 py-1.5 rounded-lg border border-slate-700 text-xs text-slate-300 hover:border-slate-500 transition-colors"
+                           >
+                              Installed Fonts
+                           </button>
+                        )}
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Lyrics Weight</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.fontWeight}</span>
+                        </div>
+                        <input 
+                           type="range" min="100" max="900" step="100"
+                           value={settings.fontWeight} 
+                           onChange={(e) => setSettings({...settings, fontWeight: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Title Weight</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.titleFontWeight}</span>
+                        </div>
+                        <input 
+                           type="range" min="100" max="900" step="100"
+                           value={settings.titleFontWeight} 
+                           onChange={(e) => setSettings({...settings, titleFontWeight: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Letter Spacing</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.letterSpacing}px</span>
+                        </div>
+                        <input 
+                           type="range" min="-5" max="20" step="1"
+                           value={settings.letterSpacing} 
+                           onChange={(e) => setSettings({...settings, letterSpacing: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Outline</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.textOutline}px</span>
+                        </div>
+                        <input 
+                           type="range" min="0" max="10" step="1"
+                           value={settings.textOutline} 
+                           onChange={(e) => setSettings({...settings, textOutline: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input 
+                               type="checkbox" 
+                               checked={settings.uppercase}
+                               onChange={(e) => setSettings(s => ({...s, uppercase: e.target.checked}))}
+                               className="rounded bg-slate-700 border-slate-600 text-sky-500 focus:ring-0 focus:ring-offset-0 w-3 h-3"
+                            />
+                            Uppercase
+                        </label>
+                        {settings.textOutline > 0 && (
+                           <input 
+                              type="color" 
+                              value={settings.outlineColor}
+                              onChange={(e) => setSettings(s => ({...s, outlineColor: e.target.value}))}
+                              title="Outline color"
+                              className="w-6 h-6 rounded overflow-hidden cursor-pointer border-0 p-0"
+                           />
+                        )}
+                    </div>
+                </div>
+             </div>
+
              {/* Glow Intensity */}
              <div className="space-y-3 pt-2">
                 <div className="flex justify-between items-center">
@@ -941,7 +5968,64 @@ function App() {
                 />
              </div>
 
-             {/* Lyrics Position X */}
+             {/* Layout Template */}
+             <div className="space-y-2 pt-2">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2"><AlignLeft size={12}/> Layout</label>
+                <div className="grid grid-cols-4 gap-2">
+                   {LAYOUT_TEMPLATES.map(template => (
+                      <button
+                        key={template.id}
+                        title={template.description}
+                        onClick={() => setSettings(s => applyTemplate(s, template.id))}
+                        className={`py-1.5 rounded-lg border text-xs font-bold transition-colors ${settings.template === template.id ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                      >
+                         {template.label}
+                      </button>
+                   ))}
+                </div>
+                <p className="text-[10px] text-slate-500">{LAYOUT_TEMPLATES.find(t => t.id === settings.template)?.description}</p>
+             </div>
+
+             {/* Video Format */}
+             <div className="space-y-2 pt-2">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2"><MonitorPlay size={12}/> Video Format</label>
+                <div className="grid grid-cols-4 gap-2">
+                   {VIDEO_FORMATS.map(format => {
+                      const isActive = findVideoFormat(settings.videoWidth, settings.videoHeight)?.aspect === format.aspect;
+                      return (
+                         <button
+                           key={format.aspect}
+                           onClick={() => {
+                              // Keep the resolution class when switching aspect
+                              const currentLabel = findVideoFormat(settings.videoWidth, settings.videoHeight)?.sizes
+                                 .find(size => size.width === settings.videoWidth && size.height === settings.videoHeight)?.label;
+                              const size = format.sizes.find(sz => sz.label === currentLabel) ?? format.sizes[1];
+                              setSettings(s => ({...s, videoWidth: size.width, videoHeight: size.height}));
+                           }}
+                           className={`flex flex-col items-center py-1.5 rounded-lg border text-xs transition-colors ${isActive ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                         >
+                            <span className="font-bold">{format.aspect}</span>
+                            <span className="text-[10px] opacity-70">{format.label}</span>
+                         </button>
+                      );
+                   })}
+                </div>
+                <select
+                   value={`${settings.videoWidth}x${settings.videoHeight}`}
+                   onChange={(e) => {
+                      const [w, h] = e.target.value.split('x').map(Number);
+                      setSettings(s => ({...s, videoWidth: w, videoHeight: h}));
+                   }}
+                   className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-500 transition-colors"
+                >
+                   {(findVideoFormat(settings.videoWidth, settings.videoHeight) ?? VIDEO_FORMATS[0]).sizes.map(size => (
+                      <option key={size.label} value={`${size.width}x${size.height}`}>{size.label} • {size.width}x{size.height}</option>
+                   ))}
+                </select>
+             </div>
+
+             {/* Lyrics Position X (wide split layout only) */}
+             {settings.template === 'split' && settings.videoWidth / settings.videoHeight >= STACKED_ASPECT_THRESHOLD && (
              <div className="space-y-3 pt-2">
                 <div className="flex justify-between items-center">
                     <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2"><AlignLeft size={12}/> Text Position</label>
@@ -954,6 +6038,286 @@ function App() {
                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
                 />
              </div>
+             )}
+
+             {/* Lyric Transitions (list templates) */}
+             {(settings.template === 'split' || settings.template === 'focus') && (
+             <div className="space-y-3 pt-2">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2"><Wand2 size={12}/> Transition</label>
+                <div className="grid grid-cols-3 gap-2">
+                   {LYRIC_TRANSITIONS.map(transition => (
+                      <button
+                        key={transition.id}
+                        onClick={() => setSettings(s => ({...s, transition: transition.id}))}
+                        className={`py-1.5 rounded-lg border text-xs font-bold transition-colors ${settings.transition === transition.id ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                      >
+                         {transition.label}
+                      </button>
+                   ))}
+                </div>
+                <div className="bg-slate-900/50 p-3 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="text-xs text-slate-400">Easing</label>
+                        <select
+                           value={settings.transitionEasing}
+                           onChange={(e) => setSettings(s => ({...s, transitionEasing: e.target.value as TransitionEasing}))}
+                           className="flex-1 max-w-[60%] bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-sky-500"
+                        >
+                           {TRANSITION_EASINGS.map(easing => <option key={easing.id} value={easing.id}>{easing.label}</option>)}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Duration</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.transitionDuration.toFixed(1)}s</span>
+                        </div>
+                        <input 
+                           type="range" min="0.1" max="2" step="0.1"
+                           value={settings.transitionDuration} 
+                           onChange={(e) => setSettings({...settings, transitionDuration: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Visible Neighbors</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.visibleLines}</span>
+                        </div>
+                        <input 
+                           type="range" min="1" max="8" step="1"
+                           value={settings.visibleLines} 
+                           onChange={(e) => setSettings({...settings, visibleLines: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Neighbor Fade</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.neighborFade}%</span>
+                        </div>
+                        <input 
+                           type="range" min="0" max="100" step="1"
+                           value={settings.neighborFade} 
+                           onChange={(e) => setSettings({...settings, neighborFade: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Neighbor Blur</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.neighborBlur}%</span>
+                        </div>
+                        <input 
+                           type="range" min="0" max="100" step="1"
+                           value={settings.neighborBlur} 
+                           onChange={(e) => setSettings({...settings, neighborBlur: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                </div>
+             </div>
+             )}
+
+             {/* Translations */}
+             <div className="space-y-3 pt-4 mt-4 border-t border-slate-800">
+                <div className="flex justify-between items-center">
+                    <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2">
+                        <Languages size={12}/> Translations
+                    </label>
+                    <button 
+                        onClick={() => setSettings(s => ({...s, showTranslations: !s.showTranslations}))}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${settings.showTranslations ? 'bg-sky-500' : 'bg-slate-700'}`}
+                    >
+                        <span className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${settings.showTranslations ? 'left-6' : 'left-1'}`} />
+                    </button>
+                </div>
+
+                {settings.showTranslations && (
+                    <div className="bg-slate-900/50 p-3 rounded-lg space-y-3 animate-in fade-in slide-in-from-top-2">
+                        <div className="flex items-center justify-between">
+                             <label className="text-xs text-slate-400">Color</label>
+                             <input 
+                                type="color" 
+                                value={settings.translationColor}
+                                onChange={(e) => setSettings(s => ({...s, translationColor: e.target.value}))}
+                                className="w-6 h-6 rounded overflow-hidden cursor-pointer border-0 p-0"
+                             />
+                        </div>
+                        <div className="space-y-1">
+                             <div className="flex items-center justify-between">
+                                 <label className="text-xs text-slate-400">Size</label>
+                                 <span className="text-[10px] text-slate-500 font-mono">{settings.translationScale}%</span>
+                             </div>
+                             <input 
+                                type="range" min="30" max="100" 
+                                value={settings.translationScale} 
+                                onChange={(e) => setSettings({...settings, translationScale: Number(e.target.value)})}
+                                className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                             />
+                        </div>
+                        <p className="text-[10px] text-slate-500">Lines sharing a timestamp in the lyrics file, or lines from a translation file, appear under the main line.</p>
+                    </div>
+                )}
+             </div>
+
+             {/* Duet Singers */}
+             {media.lyrics.some(l => l.singer) && (
+             <div className="space-y-3 pt-4 mt-4 border-t border-slate-800">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2">
+                    <Users size={12}/> Duet Singers
+                </label>
+                <div className="bg-slate-900/50 p-3 rounded-lg space-y-3">
+                        <div className="flex items-center justify-between">
+                             <label className="text-xs text-slate-400">Singer 1</label>
+                             <input 
+                                type="color" 
+                                value={settings.singer1Color}
+                                onChange={(e) => setSettings(s => ({...s, singer1Color: e.target.value}))}
+                                className="w-6 h-6 rounded overflow-hidden cursor-pointer border-0 p-0"
+                             />
+                        </div>
+                        <div className="flex items-center justify-between">
+                             <label className="text-xs text-slate-400">Singer 2</label>
+                             <input 
+                                type="color" 
+                                value={settings.singer2Color}
+                                onChange={(e) => setSettings(s => ({...s, singer2Color: e.target.value}))}
+                                className="w-6 h-6 rounded overflow-hidden cursor-pointer border-0 p-0"
+                             />
+                        </div>
+                        <div className="flex items-center justify-between">
+                             <label className="text-xs text-slate-400">Both</label>
+                             <input 
+                                type="color" 
+                                value={settings.bothSingersColor}
+                                onChange={(e) => setSettings(s => ({...s, bothSingersColor: e.target.value}))}
+                                className="w-6 h-6 rounded overflow-hidden cursor-pointer border-0 p-0"
+                             />
+                        </div>
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input 
+                               type="checkbox" 
+                               checked={settings.duetAlignment}
+                               onChange={(e) => setSettings(s => ({...s, duetAlignment: e.target.checked}))}
+                               className="rounded bg-slate-700 border-slate-600 text-sky-500 focus:ring-0 focus:ring-offset-0 w-3 h-3"
+                            />
+                            Align singer 2 right and shared lines centered
+                        </label>
+                        <p className="text-[10px] text-slate-500">Mark lines with M: / F: / D: or [v1] / [v2] / [both] in the lyrics file.</p>
+                </div>
+             </div>
+             )}
+
+             {/* Background */}
+             <div className="space-y-3 pt-4 mt-4 border-t border-slate-800">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2">
+                    <Film size={12}/> Background
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                   {BACKGROUND_SOURCES.map(source => (
+                      <button
+                        key={source.id}
+                        onClick={() => setSettings(s => ({...s, backgroundSource: source.id}))}
+                        className={`py-1.5 rounded-lg border text-xs font-bold transition-colors ${settings.backgroundSource === source.id ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                      >
+                         {source.label}
+                      </button>
+                   ))}
+                </div>
+
+                {settings.backgroundSource === 'slideshow' && (
+                    <div className="flex items-center gap-3">
+                        <div className="relative flex-1">
+                           <input 
+                             type="file" 
+                             accept="image/*" 
+                             multiple
+                             onChange={(e) => handleFileUpload(e, 'slides')}
+                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                           />
+                           <div className="flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-dashed border-slate-700 text-xs text-slate-300 hover:border-slate-500 transition-colors">
+                              <Upload size={12} /> {media.slideFiles.length ? `${media.slideFiles.length} Images - Add More` : 'Upload Images'}
+                           </div>
+                        </div>
+                        {media.slideFiles.length > 0 && (
+                           <button
+                             onClick={() => setMedia(prev => ({ ...prev, slideFiles: [] }))}
+                             className="text-slate-500 hover:text-rose-400 transition-colors"
+                             title="Remove all images"
+                           >
+                              <Trash2 size={14} />
+                           </button>
+                        )}
+                    </div>
+                )}
+
+                {settings.backgroundSource === 'video' && (
+                    <div className="flex items-center gap-3">
+                        <div className="relative flex-1">
+                           <input 
+                             type="file" 
+                             accept="video/*" 
+                             onChange={(e) => handleFileUpload(e, 'video')}
+                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                           />
+                           <div className="flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-dashed border-slate-700 text-xs text-slate-300 hover:border-slate-500 transition-colors">
+                              <Upload size={12} /> {media.backgroundVideoFile ? 'Replace Video Loop' : 'Upload Video Loop'}
+                           </div>
+                        </div>
+                        {media.backgroundVideoFile && (
+                           <button
+                             onClick={() => setMedia(prev => ({ ...prev, backgroundVideoFile: null }))}
+                             className="text-slate-500 hover:text-rose-400 transition-colors"
+                             title="Remove video"
+                           >
+                              <Trash2 size={14} />
+                           </button>
+                        )}
+                    </div>
+                )}
+
+                <div className="bg-slate-900/50 p-3 rounded-lg space-y-3">
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Blur</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.backgroundBlur}px</span>
+                        </div>
+                        <input 
+                           type="range" min="0" max="100" 
+                           value={settings.backgroundBlur} 
+                           onChange={(e) => setSettings({...settings, backgroundBlur: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Dim</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.backgroundDim}%</span>
+                        </div>
+                        <input 
+                           type="range" min="0" max="100" 
+                           value={settings.backgroundDim} 
+                           onChange={(e) => setSettings({...settings, backgroundDim: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs text-slate-400">Saturation</label>
+                            <span className="text-[10px] text-slate-500 font-mono">{settings.backgroundSaturation}%</span>
+                        </div>
+                        <input 
+                           type="range" min="0" max="200" 
+                           value={settings.backgroundSaturation} 
+                           onChange={(e) => setSettings({...settings, backgroundSaturation: Number(e.target.value)})}
+                           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                        />
+                    </div>
+                    {settings.backgroundSource === 'slideshow' && (
+                        <p className="text-[10px] text-slate-500">Images change with each lyric section after an instrumental break.</p>
+                    )}
+                </div>
+             </div>
 
              {/* Dynamic Light Effects (Bokeh) */}
              <div className="space-y-3 pt-4 mt-4 border-t border-slate-800">
@@ -1022,6 +6386,86 @@ function App() {
                 )}
              </div>
 
+             {/* Audio Reactive */}
+             <div className="space-y-3 pt-4 mt-4 border-t border-slate-800">
+                <div className="flex justify-between items-center">
+                    <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2">
+                        <AudioLines size={12}/> Audio Reactive
+                    </label>
+                    <button 
+                        onClick={() => setSettings(s => ({...s, audioReactive: !s.audioReactive}))}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${settings.audioReactive ? 'bg-sky-500' : 'bg-slate-700'}`}
+                    >
+                        <span className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${settings.audioReactive ? 'left-6' : 'left-1'}`} />
+                    </button>
+                </div>
+
+                {settings.audioReactive && (
+                    <div className="bg-slate-900/50 p-3 rounded-lg space-y-1 animate-in fade-in slide-in-from-top-2">
+                         <div className="flex items-center justify-between">
+                             <label className="text-xs text-slate-400">Strength</label>
+                             <span className="text-[10px] text-slate-500 font-mono">{settings.reactiveStrength}%</span>
+                         </div>
+                         <input 
+                            type="range" min="0" max="100" 
+                            value={settings.reactiveStrength} 
+                            onChange={(e) => setSettings({...settings, reactiveStrength: Number(e.target.value)})}
+                            className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                         />
+                         <p className="text-[10px] text-slate-500">Light effects pulse on beats and the glow follows the loudness.</p>
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    <label className="text-xs text-slate-400">Spectrum Visualizer</label>
+                    <div className="grid grid-cols-3 gap-2">
+                       {VISUALIZER_STYLES.map(style => (
+                          <button
+                            key={style.id}
+                            onClick={() => setSettings(s => ({...s, visualizer: style.id}))}
+                            className={`py-1.5 rounded-lg border text-xs font-bold transition-colors ${settings.visualizer === style.id ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                          >
+                             {style.label}
+                          </button>
+                       ))}
+                    </div>
+                </div>
+             </div>
+
+             {/* Instrumental Breaks */}
+             <div className="space-y-3 pt-4 mt-4 border-t border-slate-800">
+                <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2">
+                    <Hourglass size={12}/> Instrumental Breaks
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                   {BREAK_INDICATORS.map(style => (
+                      <button
+                        key={style.id}
+                        onClick={() => setSettings(s => ({...s, breakIndicator: style.id}))}
+                        className={`py-1.5 rounded-lg border text-xs font-bold transition-colors ${settings.breakIndicator === style.id ? 'border-sky-500 bg-sky-900/20 text-sky-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                      >
+                         {style.label}
+                      </button>
+                   ))}
+                </div>
+
+                {settings.breakIndicator !== 'none' && (
+                    <div className="bg-slate-900/50 p-3 rounded-lg space-y-1 animate-in fade-in slide-in-from-top-2">
+                         <div className="flex items-center justify-between">
+                             <label className="text-xs text-slate-400">Minimum Gap</label>
+                             <span className="text-[10px] text-slate-500 font-mono">{settings.breakThreshold}s</span>
+                         </div>
+                         <input 
+                            type="range" min="2" max="30" step="1"
+                            value={settings.breakThreshold} 
+                            onChange={(e) => setSettings({...settings, breakThreshold: Number(e.target.value)})}
+                            className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                         />
+                         <p className="text-[10px] text-slate-500">Shown in gaps without singing, including the lead-in before the first line.</p>
+                    </div>
+                )}
+             </div>
+
              {/* Intro Duration */}
              <div className="space-y-3 pt-2 border-t border-slate-800 mt-4">
                 <div className="flex justify-between items-center mt-4">
@@ -1037,6 +6481,47 @@ function App() {
                 <p className="text-[10px] text-slate-500">Adds silence and title card at start of recording.</p>
              </div>
 
+             {/* Outro */}
+             <div className="space-y-3 pt-2 border-t border-slate-800 mt-4">
+                <div className="flex justify-between items-center mt-4">
+                    <label className="text-xs text-slate-400 uppercase font-bold tracking-wider">Outro</label>
+                    <span className="text-xs text-slate-500 font-mono">{settings.outroDuration}s</span>
+                </div>
+                <input 
+                   type="range" min="0" max="15" step="0.5"
+                   value={settings.outroDuration} 
+                   onChange={(e) => setSettings({...settings, outroDuration: Number(e.target.value)})}
+                   className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-rose-500"
+                />
+                <p className="text-[10px] text-slate-500">Fades to an end card after the song, then to black.</p>
+
+                {settings.outroDuration > 0 && (
+                   <div className="bg-slate-900/50 p-3 rounded-lg space-y-3">
+                      <input 
+                         type="text" 
+                         value={settings.lyricsCredit} 
+                         onChange={(e) => setSettings({...settings, lyricsCredit: e.target.value})}
+                         placeholder="Lyrics by"
+                         className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-500 transition-colors"
+                      />
+                      <input 
+                         type="text" 
+                         value={settings.artCredit} 
+                         onChange={(e) => setSettings({...settings, artCredit: e.target.value})}
+                         placeholder="Cover art by"
+                         className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-500 transition-colors"
+                      />
+                      <textarea
+                         value={settings.endCardText}
+                         onChange={(e) => setSettings({...settings, endCardText: e.target.value})}
+                         placeholder="Custom text, e.g. a channel name or link"
+                         rows={2}
+                         className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-500 transition-colors resize-y"
+                      />
+                   </div>
+                )}
+             </div>
+
           </div>
 
           {/* Playback Controls */}
@@ -1052,29 +6537,200 @@ function App() {
              
              {/* Progress Bar */}
              <div className="mt-6 space-y-2">
-                <input 
-                    type="range"
-                    min="0"
-                    max={audioRef.current?.duration || 100}
-                    value={currentTime}
-                    onChange={(e) => {
-                        const t = Number(e.target.value);
-                        if(audioRef.current) audioRef.current.currentTime = t;
-                        setCurrentTime(t);
-                    }}
-                    className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-slate-400 hover:accent-sky-400"
-                />
+                <div ref={seekBarRef} className="relative">
+                    <input 
+                        type="range"
+                        min="0"
+                        max={audioRef.current?.duration || 100}
+                        value={currentTime}
+                        onChange={(e) => {
+                            const t = Number(e.target.value);
+                            if(audioRef.current) audioRef.current.currentTime = t;
+                            setCurrentTime(t);
+                        }}
+                        className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-slate-400 hover:accent-sky-400"
+                    />
+
+                    {/* Clip range with draggable in and out points */}
+                    {settings.clipEnabled && (
+                        <>
+                            <div
+                              className="absolute top-1/2 -translate-y-1/2 h-2 bg-sky-500/30 rounded pointer-events-none"
+                              style={{
+                                left: `${(settings.clipStart / getSeekDuration()) * 100}%`,
+                                width: `${((Math.min(settings.clipEnd, getSeekDuration()) - settings.clipStart) / getSeekDuration()) * 100}%`,
+                              }}
+                            />
+                            {(['start', 'end'] as const).map(edge => (
+                                <div
+                                  key={edge}
+                                  onPointerDown={(e) => dragClipEdge(e, edge)}
+                                  onPointerMove={(e) => dragClipEdge(e, edge)}
+                                  title={edge === 'start' ? 'Drag the in point' : 'Drag the out point'}
+                                  className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2 h-4 rounded-sm bg-sky-400 cursor-ew-resize touch-none"
+                                  style={{ left: `${(Math.min(edge === 'start' ? settings.clipStart : settings.clipEnd, getSeekDuration()) / getSeekDuration()) * 100}%` }}
+                                />
+                            ))}
+                        </>
+                    )}
+                </div>
                 <div className="flex justify-between text-xs font-mono text-slate-500">
                     <span>{new Date(currentTime * 1000).toISOString().substr(14, 5)}</span>
                     <span>{audioRef.current?.duration ? new Date(audioRef.current.duration * 1000).toISOString().substr(14, 5) : "00:00"}</span>
                 </div>
              </div>
+
+             {/* Waveform Timeline */}
+             <div className="space-y-3 pt-4 mt-4 border-t border-slate-800">
+                <div className="flex justify-between items-center">
+                    <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2">
+                        <AudioWaveform size={12}/> Timeline
+                    </label>
+                    <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => setTimelineZoom(z => TIMELINE_ZOOM_LEVELS[Math.max(0, TIMELINE_ZOOM_LEVELS.indexOf(z) - 1)])}
+                          disabled={timelineZoom === TIMELINE_ZOOM_LEVELS[0]}
+                          className="text-slate-500 hover:text-slate-200 disabled:opacity-50 transition-colors"
+                          title="Zoom out"
+                        >
+                           <ZoomOut size={14} />
+                        </button>
+                        <span className="text-[10px] text-slate-500 font-mono w-6 text-center">{timelineZoom}x</span>
+                        <button
+                          onClick={() => setTimelineZoom(z => TIMELINE_ZOOM_LEVELS[Math.min(TIMELINE_ZOOM_LEVELS.length - 1, TIMELINE_ZOOM_LEVELS.indexOf(z) + 1)])}
+                          disabled={timelineZoom === TIMELINE_ZOOM_LEVELS[TIMELINE_ZOOM_LEVELS.length - 1]}
+                          className="text-slate-500 hover:text-slate-200 disabled:opacity-50 transition-colors"
+                          title="Zoom in"
+                        >
+                           <ZoomIn size={14} />
+                        </button>
+                    </div>
+                </div>
+
+                {waveform ? (
+                    <div ref={timelineRef} className="overflow-x-auto bg-slate-950 rounded-lg">
+                        <div
+                          ref={timelineTrackRef}
+                          onPointerDown={(e) => seekTo(getTimelineTime(e.clientX))}
+                          className="relative h-24 cursor-pointer"
+                          style={{ width: `${timelineZoom * 100}%` }}
+                        >
+                            <canvas ref={waveformCanvasRef} className="absolute inset-x-0 top-0 w-full h-16 pointer-events-none" />
+
+                            {/* Lyric lines as blocks in a lane under the waveform */}
+                            {media.lyrics.map((line, i) => (
+                                <div
+                                  key={i}
+                                  onPointerDown={(e) => dragLyricMarker(e, i)}
+                                  onPointerMove={(e) => dragLyricMarker(e, i)}
+                                  onPointerUp={(e) => dragLyricMarker(e, i)}
+                                  title={`${formatLrcTime(line.time)} ${line.text}`}
+                                  className={`absolute top-16 h-7 mt-0.5 px-1 border-l-2 rounded-r text-[10px] leading-7 truncate cursor-ew-resize touch-none select-none ${i === activeLineIndex ? 'bg-sky-500/30 border-sky-400 text-sky-200' : 'bg-slate-800 border-slate-500 text-slate-400 hover:bg-slate-700'}`}
+                                  style={{
+                                    left: `${(line.time / waveform.duration) * 100}%`,
+                                    width: `${(Math.max(0, getLineEndTime(media.lyrics, i) - line.time) / waveform.duration) * 100}%`,
+                                  }}
+                                >
+                                   {line.text}
+                                </div>
+                            ))}
+
+                            {/* Playhead */}
+                            <div
+                              className="absolute top-0 bottom-0 w-px bg-sky-400 pointer-events-none"
+                              style={{ left: `${(currentTime / waveform.duration) * 100}%` }}
+                            />
+                        </div>
+                    </div>
+                ) : (
+                    <div className="h-24 flex items-center justify-center bg-slate-950 rounded-lg text-xs text-slate-500">
+                        {songUrl ? 'Reading waveform...' : 'Upload audio to see its waveform'}
+                    </div>
+                )}
+                {waveform && media.lyrics.length > 0 && (
+                    <p className="text-[10px] text-slate-500">Click to seek • drag a line to move it; it stays between its neighbours</p>
+                )}
+             </div>
+
+             {/* Clip Range */}
+             <div className="space-y-3 pt-4 mt-4 border-t border-slate-800">
+                <div className="flex justify-between items-center">
+                    <label className="text-xs text-slate-400 uppercase font-bold tracking-wider flex items-center gap-2">
+                        <Scissors size={12}/> Export Clip
+                    </label>
+                    <button 
+                        onClick={toggleClip}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${settings.clipEnabled ? 'bg-sky-500' : 'bg-slate-700'}`}
+                    >
+                        <span className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${settings.clipEnabled ? 'left-6' : 'left-1'}`} />
+                    </button>
+                </div>
+
+                {settings.clipEnabled && (
+                    <div className="bg-slate-900/50 p-3 rounded-lg space-y-3 animate-in fade-in slide-in-from-top-2">
+                        {(['start', 'end'] as const).map(edge => (
+                            <div key={edge} className="flex items-center gap-2">
+                                <label className="text-xs text-slate-400 w-8">{edge === 'start' ? 'In' : 'Out'}</label>
+                                <input
+                                  key={edge === 'start' ? settings.clipStart : settings.clipEnd}
+                                  type="text"
+                                  defaultValue={formatLrcTime(edge === 'start' ? settings.clipStart : settings.clipEnd)}
+                                  onBlur={(e) => {
+                                      const time = parseTimeInput(e.target.value);
+                                      if (time !== null) setClipEdge(edge, time);
+                                      else e.target.value = formatLrcTime(edge === 'start' ? settings.clipStart : settings.clipEnd);
+                                  }}
+                                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                  className="w-20 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs font-mono text-slate-300 focus:outline-none focus:border-sky-500"
+                                />
+                                <button
+                                  onClick={() => setClipEdge(edge, currentTime)}
+                                  className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:border-slate-500 transition-colors"
+                                  title="Use the playhead position"
+                                >
+                                   Now
+                                </button>
+                                <select
+                                  value=""
+                                  onChange={(e) => setClipEdgeToLine(edge, Number(e.target.value))}
+                                  disabled={!media.lyrics.length}
+                                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-sky-500"
+                                >
+                                   <option value="" disabled>{edge === 'start' ? 'From line...' : 'To line...'}</option>
+                                   {media.lyrics.map((line, i) => (
+                                      <option key={i} value={i}>{formatLrcTime(line.time)} {line.text}</option>
+                                   ))}
+                                </select>
+                            </div>
+                        ))}
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input 
+                               type="checkbox" 
+                               checked={settings.clipIntro}
+                               onChange={(e) => setSettings(s => ({...s, clipIntro: e.target.checked}))}
+                               className="rounded bg-slate-700 border-slate-600 text-sky-500 focus:ring-0 focus:ring-offset-0 w-3 h-3"
+                            />
+                            Show the title card before the clip
+                        </label>
+                        <p className="text-[10px] text-slate-500">
+                            {formatLrcTime(Math.max(0, settings.clipEnd - settings.clipStart))} clip, audio fades in and out over {CLIP_AUDIO_FADE}s.
+                        </p>
+                    </div>
+                )}
+             </div>
           </div>
         </div>
 
         {/* Right Panel: Canvas Preview */}
         <div className="flex-1 order-1 xl:order-2 flex flex-col min-w-0">
-            <div className="relative w-full aspect-video bg-black rounded-xl overflow-hidden shadow-2xl border border-slate-800 ring-1 ring-white/10 group">
+            <div
+              className="relative mx-auto bg-black rounded-xl overflow-hidden shadow-2xl border border-slate-800 ring-1 ring-white/10 group"
+              style={{
+                aspectRatio: `${settings.videoWidth} / ${settings.videoHeight}`,
+                // Fill the width, but keep tall formats within the viewport
+                width: `min(100%, calc(75vh * ${settings.videoWidth / settings.videoHeight}))`,
+              }}
+            >
                {/* The Main Stage */}
                <canvas
                   ref={canvasRef}
@@ -1084,24 +6740,29 @@ function App() {
                />
                
                {/* Intro Overlay Indicator (Optional Visual Feedback) */}
-               {recordingPhase === 'intro' && (
+               {(recordingPhase === 'intro' || recordingPhase === 'outro') && (
                   <div className="absolute top-4 right-4 px-3 py-1 bg-rose-600/90 text-white text-xs font-bold rounded-full animate-pulse">
-                      REC • INTRO
+                      REC • {recordingPhase === 'intro' ? 'INTRO' : 'OUTRO'}
                   </div>
                )}
 
                {/* Hidden Audio Element used for playback sync */}
-               {media.audioUrl && (
+               {songUrl && (
                   <audio 
                     ref={audioRef} 
-                    src={media.audioUrl} 
-                    onEnded={() => { setIsPlaying(false); if(isRecording) stopRecording(); }}
+                    src={songUrl} 
+                    onEnded={handleAudioEnded}
                   />
                )}
+
+               {/* Guide vocal, mixed over the instrumental in the stems mode */}
+               {settings.audioMode === 'stems' && media.instrumentalUrl && media.guideVocalUrl && (
+                  <audio ref={guideAudioRef} src={media.guideVocalUrl} />
+               )}
             </div>
             
             <div className="mt-4 flex justify-between items-center text-slate-500 text-sm px-1">
-               <p>Preview • 16:9 • {settings.videoWidth}x{settings.videoHeight}</p>
+               <p>Preview • {findVideoFormat(settings.videoWidth, settings.videoHeight)?.aspect ?? 'Custom'} • {settings.videoWidth}x{settings.videoHeight}</p>
                {media.lyrics.length > 0 && <p className="text-sky-500/80">Synched</p>}
             </div>
         </div>